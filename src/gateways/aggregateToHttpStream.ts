@@ -0,0 +1,169 @@
+import express from 'express'
+import cors, { type CorsOptions } from 'cors'
+import { createServer } from 'http'
+import { Logger } from '../types.js'
+import { onSignals } from '../lib/onSignals.js'
+import { createAggregateUpstream } from '../lib/aggregateUpstream.js'
+import { sendHealth } from '../lib/sendHealth.js'
+import { serializeCorsOrigin } from '../lib/serializeCorsOrigin.js'
+import type { NamedServer } from '../lib/servers.js'
+import { describeFilterRules, type FilterRules } from '../lib/messageFilter.js'
+import { createHttpStreamServer } from '../server/httpStream.js'
+import { serveMetrics } from '../lib/metrics.js'
+import { logMessage } from '../lib/logger.js'
+import type { EventStore } from '../lib/eventStore.js'
+
+export interface AggregateToHttpStreamArgs {
+  servers: NamedServer[]
+  port: number
+  endpoint: string
+  logger: Logger
+  corsOrigin: CorsOptions['origin']
+  healthEndpoints: string[]
+  metricsEndpoint?: string
+  headers: Record<string, string>
+  responseMode: 'auto' | 'batch' | 'stream'
+  batchTimeout: number
+  sessionHeaderName: string
+  eventStore?: EventStore
+  sessionIdleTimeout: number
+  maxSessions: number
+  maxRestarts: number
+  restartWindow: number
+  filter: FilterRules
+}
+
+const setResponseHeaders = ({
+  res,
+  headers,
+}: {
+  res: express.Response
+  headers: Record<string, string>
+}) =>
+  Object.entries(headers).forEach(([key, value]) => {
+    res.setHeader(key, value)
+  })
+
+export async function aggregateToHttpStream(args: AggregateToHttpStreamArgs) {
+  const {
+    servers,
+    port,
+    endpoint,
+    logger,
+    corsOrigin,
+    healthEndpoints,
+    metricsEndpoint,
+    headers,
+    responseMode,
+    batchTimeout,
+    sessionHeaderName,
+    eventStore,
+    sessionIdleTimeout,
+    maxSessions,
+    maxRestarts,
+    restartWindow,
+    filter,
+  } = args
+
+  logger.info(
+    `  - Headers: ${Object.keys(headers).length ? JSON.stringify(headers) : '(none)'}`,
+  )
+  logger.info(`  - port: ${port}`)
+  for (const { name, stdioCmd } of servers) {
+    logger.info(`  - server ${name}: ${stdioCmd}`)
+  }
+  logger.info(`  - endpoint: ${endpoint}`)
+  logger.info(`  - responseMode: ${responseMode}`)
+  logger.info(`  - batchTimeout: ${batchTimeout}ms`)
+  logger.info(`  - sessionHeaderName: ${sessionHeaderName}`)
+  logger.info(`  - sessionIdleTimeout: ${sessionIdleTimeout}ms`)
+  logger.info(`  - maxSessions: ${maxSessions || 'unlimited'}`)
+  logger.info(`  - maxRestarts: ${maxRestarts}`)
+  logger.info(`  - restartWindow: ${restartWindow}ms`)
+  logger.info(`  - filter: ${describeFilterRules(filter)}`)
+  logger.info(
+    `  - CORS: enabled (${corsOrigin ? serializeCorsOrigin({ corsOrigin }) : '*'})`,
+  )
+  logger.info(
+    `  - Health endpoints: ${healthEndpoints.length ? healthEndpoints.join(', ') : '(none)'}`,
+  )
+  logger.info(`  - Metrics endpoint: ${metricsEndpoint || '(none)'}`)
+
+  // Every session talks to the aggregate, which answers initialize itself
+  const aggregate = createAggregateUpstream({
+    servers,
+    logger,
+    maxRestarts,
+    restartWindow,
+    filter,
+    // Let the children use sampling and roots, they are routed to the client
+    capabilities: { sampling: {}, roots: { listChanged: true } },
+    onMessage: (jsonMsg) => {
+      logMessage({
+        logger,
+        label: 'Child → HTTP',
+        message: jsonMsg,
+        direction: 'server-to-client',
+      })
+      server.handleUpstreamMessage(aggregate, jsonMsg)
+    },
+    onGiveUp: () => process.exit(1),
+  })
+
+  const app = express()
+  serveMetrics({ app, metricsEndpoint })
+
+  // Always enable CORS, but use specified origins if provided
+  app.use(
+    cors({
+      origin: corsOrigin || '*',
+      methods: 'GET, POST, DELETE, OPTIONS',
+      allowedHeaders:
+        'Content-Type, Accept, Authorization, x-api-key, Last-Event-ID, MCP-Protocol-Version',
+      exposedHeaders: 'Content-Type, Authorization, x-api-key, Mcp-Session-Id',
+      credentials: true,
+    }),
+  )
+
+  for (const ep of healthEndpoints) {
+    app.get(ep, (req, res) => {
+      setResponseHeaders({
+        res,
+        headers,
+      })
+      sendHealth({
+        req,
+        res,
+        details: { restarts: aggregate.restarts, servers: aggregate.status() },
+      })
+    })
+  }
+
+  const server = createHttpStreamServer({
+    app,
+    endpoint,
+    logger,
+    headers,
+    responseMode,
+    batchTimeout,
+    sessionHeaderName,
+    eventStore,
+    sessionIdleTimeout,
+    maxSessions,
+    sharedUpstream: aggregate,
+  })
+
+  onSignals({
+    logger,
+    cleanup: () => {
+      server.close()
+      aggregate.close()
+    },
+  })
+
+  const httpServer = createServer(app)
+  httpServer.listen(port, () => {
+    logger.info(`Listening on port ${port}`)
+    logger.info(`HTTP Stream endpoint: http://localhost:${port}${endpoint}`)
+  })
+}
@@ -0,0 +1,140 @@
+import express from 'express'
+import cors, { type CorsOptions } from 'cors'
+import { createServer } from 'http'
+import { Logger } from '../types.js'
+import { onSignals } from '../lib/onSignals.js'
+import { serializeCorsOrigin } from '../lib/serializeCorsOrigin.js'
+import { createSseUpstream } from '../lib/sseUpstream.js'
+import { createHttpStreamServer } from '../server/httpStream.js'
+import { serveMetrics } from '../lib/metrics.js'
+import { logMessage } from '../lib/logger.js'
+import type { EventStore } from '../lib/eventStore.js'
+
+export interface SseToHttpStreamArgs {
+  sseUrl: string
+  port: number
+  endpoint: string
+  logger: Logger
+  corsOrigin: CorsOptions['origin']
+  healthEndpoints: string[]
+  metricsEndpoint?: string
+  headers: Record<string, string>
+  responseMode: 'auto' | 'batch' | 'stream'
+  batchTimeout: number
+  sessionHeaderName: string
+  eventStore?: EventStore
+  sessionIdleTimeout: number
+  maxSessions: number
+  maxConnections: number
+  connectionIdleTimeout: number
+}
+
+export async function sseToHttpStream(args: SseToHttpStreamArgs) {
+  const {
+    sseUrl,
+    port,
+    endpoint,
+    logger,
+    corsOrigin,
+    healthEndpoints,
+    metricsEndpoint,
+    headers,
+    responseMode,
+    batchTimeout,
+    sessionHeaderName,
+    eventStore,
+    sessionIdleTimeout,
+    maxSessions,
+    maxConnections,
+    connectionIdleTimeout,
+  } = args
+
+  logger.info(`  - sse: ${sseUrl}`)
+  logger.info(
+    `  - Headers: ${Object.keys(headers).length ? JSON.stringify(headers) : '(none)'}`,
+  )
+  logger.info(`  - port: ${port}`)
+  logger.info(`  - endpoint: ${endpoint}`)
+  logger.info(`  - responseMode: ${responseMode}`)
+  logger.info(`  - batchTimeout: ${batchTimeout}ms`)
+  logger.info(`  - sessionHeaderName: ${sessionHeaderName}`)
+  logger.info(`  - sessionIdleTimeout: ${sessionIdleTimeout}ms`)
+  logger.info(`  - maxSessions: ${maxSessions || 'unlimited'}`)
+  logger.info(`  - maxConnections: ${maxConnections}`)
+  logger.info(`  - connectionIdleTimeout: ${connectionIdleTimeout}ms`)
+  logger.info(
+    `  - CORS: enabled (${corsOrigin ? serializeCorsOrigin({ corsOrigin }) : '*'})`,
+  )
+  logger.info(
+    `  - Health endpoints: ${healthEndpoints.length ? healthEndpoints.join(', ') : '(none)'}`,
+  )
+  logger.info(`  - Metrics endpoint: ${metricsEndpoint || '(none)'}`)
+
+  const app = express()
+  serveMetrics({ app, metricsEndpoint })
+
+  // Always enable CORS, but use specified origins if provided
+  app.use(
+    cors({
+      origin: corsOrigin || '*',
+      methods: 'GET, POST, DELETE, OPTIONS',
+      allowedHeaders:
+        'Content-Type, Accept, Authorization, x-api-key, Last-Event-ID, MCP-Protocol-Version',
+      exposedHeaders: 'Content-Type, Authorization, x-api-key, Mcp-Session-Id',
+      credentials: true,
+    }),
+  )
+
+  for (const ep of healthEndpoints) {
+    app.get(ep, (_req, res) => {
+      res.send('ok')
+    })
+  }
+
+  // Every session gets its own SSE connection to the remote server, so the
+  // remote sees one client per session and initialize is passed through
+  const server = createHttpStreamServer({
+    app,
+    endpoint,
+    logger,
+    headers: {},
+    responseMode,
+    batchTimeout,
+    sessionHeaderName,
+    eventStore,
+    sessionIdleTimeout,
+    maxSessions,
+    createSessionUpstream: ({ sessionId, onMessage, onClose }) => {
+      logger.info(`Connecting to SSE for session ${sessionId}`)
+      return createSseUpstream({
+        sseUrl,
+        headers,
+        logger,
+        onMessage: (jsonMsg) => {
+          logMessage({
+            logger,
+            label: 'SSE → HTTP',
+            message: jsonMsg,
+            direction: 'server-to-client',
+            sessionId,
+          })
+          onMessage(jsonMsg)
+        },
+        onClose,
+      })
+    },
+    maxUpstreams: maxConnections,
+    upstreamIdleTimeout: connectionIdleTimeout,
+  })
+
+  onSignals({
+    logger,
+    cleanup: server.close,
+  })
+
+  const httpServer = createServer(app)
+  httpServer.listen(port, () => {
+    logger.info(`Listening on port ${port}`)
+    logger.info(`HTTP Stream endpoint: http://localhost:${port}${endpoint}`)
+  })
+}
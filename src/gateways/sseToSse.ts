@@ -0,0 +1,165 @@
+import express from 'express'
+import cors, { type CorsOptions } from 'cors'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import { Logger, Upstream } from '../types.js'
+import { onSignals } from '../lib/onSignals.js'
+import { serializeCorsOrigin } from '../lib/serializeCorsOrigin.js'
+import { createSseUpstream } from '../lib/sseUpstream.js'
+import { serveMetrics, trackSseSession } from '../lib/metrics.js'
+import { logMessage } from '../lib/logger.js'
+
+export interface SseToSseArgs {
+  sseUrl: string
+  port: number
+  baseUrl: string
+  ssePath: string
+  messagePath: string
+  logger: Logger
+  corsOrigin: CorsOptions['origin']
+  healthEndpoints: string[]
+  metricsEndpoint?: string
+  headers: Record<string, string>
+}
+
+export async function sseToSse(args: SseToSseArgs) {
+  const {
+    sseUrl,
+    port,
+    baseUrl,
+    ssePath,
+    messagePath,
+    logger,
+    corsOrigin,
+    healthEndpoints,
+    metricsEndpoint,
+    headers,
+  } = args
+
+  logger.info(`  - sse: ${sseUrl}`)
+  logger.info(
+    `  - Headers: ${Object.keys(headers).length ? JSON.stringify(headers) : '(none)'}`,
+  )
+  logger.info(`  - port: ${port}`)
+  if (baseUrl) {
+    logger.info(`  - baseUrl: ${baseUrl}`)
+  }
+  logger.info(`  - ssePath: ${ssePath}`)
+  logger.info(`  - messagePath: ${messagePath}`)
+  logger.info(
+    `  - CORS: ${corsOrigin ? `enabled (${serializeCorsOrigin({ corsOrigin })})` : 'disabled'}`,
+  )
+  logger.info(
+    `  - Health endpoints: ${healthEndpoints.length ? healthEndpoints.join(', ') : '(none)'}`,
+  )
+  logger.info(`  - Metrics endpoint: ${metricsEndpoint || '(none)'}`)
+
+  const sessions: Record<
+    string,
+    { transport: SSEServerTransport; upstream: Upstream }
+  > = {}
+
+  onSignals({
+    logger,
+    cleanup: () => {
+      for (const session of Object.values(sessions)) {
+        session.upstream.close()
+      }
+    },
+  })
+
+  const app = express()
+  serveMetrics({ app, metricsEndpoint })
+
+  if (corsOrigin) {
+    app.use(cors({ origin: corsOrigin }))
+  }
+
+  for (const ep of healthEndpoints) {
+    app.get(ep, (_req, res) => {
+      res.send('ok')
+    })
+  }
+
+  app.get(ssePath, async (req, res) => {
+    logger.info(`New SSE connection from ${req.ip}`)
+
+    const sseTransport = new SSEServerTransport(`${baseUrl}${messagePath}`, res)
+    trackSseSession(res)
+    const sessionId = sseTransport.sessionId
+
+    // Every client gets its own connection to the remote server
+    const upstream = createSseUpstream({
+      sseUrl,
+      headers,
+      logger,
+      onMessage: (jsonMsg: JSONRPCMessage) => {
+        logMessage({
+          logger,
+          label: 'Remote → SSE',
+          message: jsonMsg,
+          direction: 'server-to-client',
+          sessionId,
+        })
+        sseTransport.send(jsonMsg).catch((err) => {
+          logger.error(`Failed to send to session ${sessionId}:`, err)
+        })
+      },
+      onClose: () => {
+        if (sessions[sessionId]) {
+          delete sessions[sessionId]
+          sseTransport.close()
+        }
+      },
+    })
+    sessions[sessionId] = { transport: sseTransport, upstream }
+
+    sseTransport.onmessage = (msg: JSONRPCMessage) => {
+      logMessage({
+        logger,
+        label: 'SSE → Remote',
+        message: msg,
+        direction: 'client-to-server',
+        sessionId,
+      })
+      upstream.send(msg)
+    }
+
+    sseTransport.onclose = () => {
+      logger.info(`SSE connection closed (session ${sessionId})`)
+      if (sessions[sessionId]) {
+        delete sessions[sessionId]
+        upstream.close()
+      }
+    }
+
+    sseTransport.onerror = (err) => {
+      logger.error(`SSE error (session ${sessionId}):`, err)
+    }
+
+    await sseTransport.start()
+  })
+
+  app.post(messagePath, async (req, res) => {
+    const sessionId = req.query.sessionId as string
+
+    if (!sessionId) {
+      res.status(400).send('Missing sessionId parameter')
+      return
+    }
+
+    const session = sessions[sessionId]
+    if (session) {
+      logger.debug(`POST to SSE transport (session ${sessionId})`)
+      await session.transport.handlePostMessage(req, res)
+    } else {
+      res.status(503).send(`No active SSE connection for session ${sessionId}`)
+    }
+  })
+
+  app.listen(port, () => {
+    logger.info(`Listening on port ${port}`)
+    logger.info(`SSE endpoint: http://localhost:${port}${ssePath}`)
+    logger.info(`POST messages: http://localhost:${port}${messagePath}`)
+  })
+}
@@ -12,11 +12,14 @@ import { z } from 'zod'
 import { getVersion } from '../lib/getVersion.js'
 import { Logger } from '../types.js'
 import { onSignals } from '../lib/onSignals.js'
+import { logMessage } from '../lib/logger.js'
+import type { Recorder } from '../lib/recorder.js'
 
 export interface SseToStdioArgs {
   sseUrl: string
   logger: Logger
   headers: Record<string, string>
+  recorder?: Recorder
 }
 
 let sseClient: Client | undefined
@@ -58,7 +61,7 @@ const newFallbackSseClient = async ({
 }
 
 export async function sseToStdio(args: SseToStdioArgs) {
-  const { sseUrl, logger, headers } = args
+  const { sseUrl, logger, headers, recorder } = args
 
   logger.info(`  - sse: ${sseUrl}`)
   logger.info(
@@ -108,10 +111,29 @@ export async function sseToStdio(args: SseToStdioArgs) {
     ...payload,
   })
 
+  const writeToStdout = (message: object) => {
+    recorder?.record({
+      direction: 'server-to-client',
+      transport: 'stdio',
+      message: message as JSONRPCMessage,
+    })
+    process.stdout.write(JSON.stringify(message) + '\n')
+  }
+
   stdioServer.transport!.onmessage = async (message: JSONRPCMessage) => {
+    recorder?.record({
+      direction: 'client-to-server',
+      transport: 'stdio',
+      message,
+    })
     const isRequest = 'method' in message && 'id' in message
     if (isRequest) {
-      logger.info('Stdio → SSE:', message)
+      logMessage({
+        logger,
+        label: 'Stdio → SSE',
+        message,
+        direction: 'client-to-server',
+      })
       const req = message as JSONRPCRequest
       let result
 
@@ -160,7 +182,7 @@ export async function sseToStdio(args: SseToStdioArgs) {
             message: errorMsg,
           },
         })
-        process.stdout.write(JSON.stringify(errorResp) + '\n')
+        writeToStdout(errorResp)
         return
       }
       const response = wrapResponse(
@@ -169,11 +191,21 @@ export async function sseToStdio(args: SseToStdioArgs) {
           ? { error: { ...result.error } }
           : { result: { ...result } },
       )
-      logger.info('Response:', response)
-      process.stdout.write(JSON.stringify(response) + '\n')
+      logMessage({
+        logger,
+        label: 'Response',
+        message: response,
+        direction: 'server-to-client',
+      })
+      writeToStdout(response)
     } else {
-      logger.info('SSE → Stdio:', message)
-      process.stdout.write(JSON.stringify(message) + '\n')
+      logMessage({
+        logger,
+        label: 'SSE → Stdio',
+        message,
+        direction: 'server-to-client',
+      })
+      writeToStdout(message)
     }
   }
 
@@ -0,0 +1,139 @@
+import express from 'express'
+import cors, { type CorsOptions } from 'cors'
+import { createServer } from 'http'
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import { Logger, Upstream } from '../types.js'
+import { WebSocketServerTransport } from '../server/websocket.js'
+import { onSignals } from '../lib/onSignals.js'
+import { serializeCorsOrigin } from '../lib/serializeCorsOrigin.js'
+import { createSseUpstream } from '../lib/sseUpstream.js'
+import { serveMetrics } from '../lib/metrics.js'
+import { logMessage } from '../lib/logger.js'
+
+export interface SseToWsArgs {
+  sseUrl: string
+  port: number
+  messagePath: string
+  logger: Logger
+  corsOrigin: CorsOptions['origin']
+  healthEndpoints: string[]
+  metricsEndpoint?: string
+  headers: Record<string, string>
+}
+
+export async function sseToWs(args: SseToWsArgs) {
+  const {
+    sseUrl,
+    port,
+    messagePath,
+    logger,
+    corsOrigin,
+    healthEndpoints,
+    metricsEndpoint,
+    headers,
+  } = args
+
+  logger.info(`  - sse: ${sseUrl}`)
+  logger.info(
+    `  - Headers: ${Object.keys(headers).length ? JSON.stringify(headers) : '(none)'}`,
+  )
+  logger.info(`  - port: ${port}`)
+  logger.info(`  - messagePath: ${messagePath}`)
+  logger.info(
+    `  - CORS: ${corsOrigin ? `enabled (${serializeCorsOrigin({ corsOrigin })})` : 'disabled'}`,
+  )
+  logger.info(
+    `  - Health endpoints: ${healthEndpoints.length ? healthEndpoints.join(', ') : '(none)'}`,
+  )
+  logger.info(`  - Metrics endpoint: ${metricsEndpoint || '(none)'}`)
+
+  // Every WebSocket client gets its own connection to the remote server
+  const upstreams = new Map<string, Upstream>()
+
+  const app = express()
+  serveMetrics({ app, metricsEndpoint })
+
+  if (corsOrigin) {
+    app.use(cors({ origin: corsOrigin }))
+  }
+
+  for (const ep of healthEndpoints) {
+    app.get(ep, (_req, res) => {
+      res.send('ok')
+    })
+  }
+
+  const httpServer = createServer(app)
+
+  const wsTransport = new WebSocketServerTransport({
+    path: messagePath,
+    server: httpServer,
+  })
+
+  onSignals({
+    logger,
+    cleanup: async () => {
+      for (const upstream of upstreams.values()) {
+        upstream.close()
+      }
+      await wsTransport.close().catch((err) => {
+        logger.error(`Error stopping WebSocket server: ${err.message}`)
+      })
+    },
+  })
+
+  wsTransport.onconnection = (clientId: string) => {
+    logger.info(`New WebSocket connection: ${clientId}`)
+
+    const upstream = createSseUpstream({
+      sseUrl,
+      headers,
+      logger,
+      onMessage: (jsonMsg: JSONRPCMessage) => {
+        logMessage({
+          logger,
+          label: 'SSE → WebSocket',
+          message: jsonMsg,
+          direction: 'server-to-client',
+          sessionId: clientId,
+        })
+        wsTransport.sendToClient(clientId, jsonMsg)
+      },
+      onClose: () => {
+        // The client can't use the connection anymore, so let it reconnect
+        if (upstreams.delete(clientId)) {
+          wsTransport.disconnect(clientId)
+        }
+      },
+    })
+    upstreams.set(clientId, upstream)
+  }
+
+  wsTransport.onclientmessage = (msg: JSONRPCMessage, clientId: string) => {
+    logMessage({
+      logger,
+      label: 'WebSocket → SSE',
+      message: msg,
+      direction: 'client-to-server',
+      sessionId: clientId,
+    })
+    upstreams.get(clientId)?.send(msg)
+  }
+
+  wsTransport.ondisconnection = (clientId: string) => {
+    logger.info(`WebSocket connection closed: ${clientId}`)
+    upstreams.get(clientId)?.close()
+    upstreams.delete(clientId)
+  }
+
+  wsTransport.onerror = (err: Error) => {
+    logger.error(`WebSocket error: ${err.message}`)
+  }
+
+  await wsTransport.start()
+
+  httpServer.listen(port, () => {
+    logger.info(`Listening on port ${port}`)
+    logger.info(`WebSocket endpoint: ws://localhost:${port}${messagePath}`)
+  })
+}
@@ -0,0 +1,240 @@
+import express from 'express'
+import cors, { type CorsOptions } from 'cors'
+import { createServer } from 'http'
+import { Logger } from '../types.js'
+import { onSignals } from '../lib/onSignals.js'
+import { serializeCorsOrigin } from '../lib/serializeCorsOrigin.js'
+import { sendHealth } from '../lib/sendHealth.js'
+import { describeFilterRules, type FilterRules } from '../lib/messageFilter.js'
+import { serverLogger, type NamedServer } from '../lib/servers.js'
+import {
+  mountStdioServer,
+  type MountedStdioServer,
+  type MultipleOutputTransport,
+} from './stdioToMultiple.js'
+import { serveMetrics } from '../lib/metrics.js'
+import type { EventStore } from '../lib/eventStore.js'
+
+export interface StdioServersToMultipleArgs {
+  servers: NamedServer[]
+  outputTransports: MultipleOutputTransport[]
+  port: number
+  baseUrl: string
+  ssePath: string
+  messagePath: string
+  endpoint: string
+  logger: Logger
+  corsOrigin: CorsOptions['origin']
+  healthEndpoints: string[]
+  metricsEndpoint?: string
+  headers: Record<string, string>
+  responseMode: 'auto' | 'batch' | 'stream'
+  batchTimeout: number
+  sessionHeaderName: string
+  eventStore?: EventStore
+  sessionIdleTimeout: number
+  maxSessions: number
+  maxRestarts: number
+  restartWindow: number
+  filter: FilterRules
+}
+
+const setResponseHeaders = ({
+  res,
+  headers,
+}: {
+  res: express.Response
+  headers: Record<string, string>
+}) =>
+  Object.entries(headers).forEach(([key, value]) => {
+    res.setHeader(key, value)
+  })
+
+export async function stdioServersToMultiple(args: StdioServersToMultipleArgs) {
+  const {
+    servers,
+    outputTransports,
+    port,
+    baseUrl,
+    ssePath,
+    messagePath,
+    endpoint,
+    logger,
+    corsOrigin,
+    healthEndpoints,
+    metricsEndpoint,
+    headers,
+    responseMode,
+    batchTimeout,
+    sessionHeaderName,
+    eventStore,
+    sessionIdleTimeout,
+    maxSessions,
+    maxRestarts,
+    restartWindow,
+    filter,
+  } = args
+
+  const hasSse = outputTransports.includes('sse')
+  const hasWs = outputTransports.includes('ws')
+  const hasHttpStream = outputTransports.includes('http-stream')
+
+  logger.info(
+    `  - Headers: ${Object.keys(headers).length ? JSON.stringify(headers) : '(none)'}`,
+  )
+  logger.info(`  - port: ${port}`)
+  for (const { name, stdioCmd } of servers) {
+    logger.info(`  - server ${name}: ${stdioCmd}`)
+  }
+  if (hasSse) {
+    if (baseUrl) {
+      logger.info(`  - baseUrl: ${baseUrl}`)
+    }
+    logger.info(`  - ssePath: /<server>${ssePath}`)
+  }
+  if (hasSse || hasWs) {
+    logger.info(`  - messagePath: /<server>${messagePath}`)
+  }
+  if (hasHttpStream) {
+    logger.info(`  - endpoint: /<server>${endpoint}`)
+    logger.info(`  - responseMode: ${responseMode}`)
+    logger.info(`  - batchTimeout: ${batchTimeout}ms`)
+    logger.info(`  - sessionHeaderName: ${sessionHeaderName}`)
+    logger.info(`  - sessionIdleTimeout: ${sessionIdleTimeout}ms`)
+    logger.info(`  - maxSessions: ${maxSessions || 'unlimited'}`)
+  }
+  logger.info(`  - maxRestarts: ${maxRestarts}`)
+  logger.info(`  - restartWindow: ${restartWindow}ms`)
+  logger.info(`  - filter: ${describeFilterRules(filter)}`)
+  logger.info(
+    `  - CORS: enabled (${corsOrigin ? serializeCorsOrigin({ corsOrigin }) : '*'})`,
+  )
+  logger.info(
+    `  - Health endpoints: ${healthEndpoints.length ? healthEndpoints.join(', ') : '(none)'}`,
+  )
+  logger.info(`  - Metrics endpoint: ${metricsEndpoint || '(none)'}`)
+
+  const app = express()
+  serveMetrics({ app, metricsEndpoint })
+
+  // Always enable CORS, but use specified origins if provided
+  app.use(
+    cors({
+      origin: corsOrigin || '*',
+      methods: 'GET, POST, DELETE, OPTIONS',
+      allowedHeaders:
+        'Content-Type, Accept, Authorization, x-api-key, Last-Event-ID, MCP-Protocol-Version',
+      exposedHeaders: 'Content-Type, Authorization, x-api-key, Mcp-Session-Id',
+      credentials: true,
+    }),
+  )
+
+  const httpServer = createServer(app)
+
+  // Every server gets its own child, sessions and routes under /<name>
+  const mounted: Record<string, MountedStdioServer> = {}
+  for (const { name, stdioCmd } of servers) {
+    const prefix = `/${name}`
+
+    mounted[name] = await mountStdioServer({
+      app,
+      httpServer,
+      stdioCmd,
+      outputTransports,
+      baseUrl,
+      ssePath: `${prefix}${ssePath}`,
+      messagePath: `${prefix}${messagePath}`,
+      endpoint: `${prefix}${endpoint}`,
+      logger: serverLogger(logger, name),
+      headers,
+      responseMode,
+      batchTimeout,
+      sessionHeaderName,
+      eventStore,
+      sessionIdleTimeout,
+      maxSessions,
+      maxRestarts,
+      restartWindow,
+      filter,
+      sharedServer: true,
+    })
+
+    for (const ep of healthEndpoints) {
+      app.get(`${prefix}${ep}`, (req, res) => {
+        setResponseHeaders({
+          res,
+          headers,
+        })
+        sendHealth({
+          req,
+          res,
+          details: { restarts: mounted[name].restarts },
+        })
+      })
+    }
+  }
+
+  // The gateway as a whole is healthy while it runs, the details list each server
+  for (const ep of healthEndpoints) {
+    app.get(ep, (req, res) => {
+      setResponseHeaders({
+        res,
+        headers,
+      })
+      sendHealth({
+        req,
+        res,
+        details: {
+          servers: Object.fromEntries(
+            Object.entries(mounted).map(([name, server]) => [
+              name,
+              { restarts: server.restarts },
+            ]),
+          ),
+        },
+      })
+    })
+  }
+
+  if (hasWs) {
+    // Each server's WebSocket endpoint only takes upgrades for its own path
+    const wsPaths = servers.map(({ name }) => `/${name}${messagePath}`)
+    httpServer.on('upgrade', (req, socket) => {
+      const pathname = new URL(req.url ?? '/', 'http://localhost').pathname
+      if (!wsPaths.includes(pathname)) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+      }
+    })
+  }
+
+  onSignals({
+    logger,
+    cleanup: async () => {
+      for (const server of Object.values(mounted)) {
+        await server.close()
+      }
+    },
+  })
+
+  httpServer.listen(port, () => {
+    logger.info(`Listening on port ${port}`)
+    for (const { name } of servers) {
+      if (hasSse) {
+        logger.info(`SSE endpoint: http://localhost:${port}/${name}${ssePath}`)
+        logger.info(
+          `POST messages: http://localhost:${port}/${name}${messagePath}`,
+        )
+      }
+      if (hasWs) {
+        logger.info(
+          `WebSocket endpoint: ws://localhost:${port}/${name}${messagePath}`,
+        )
+      }
+      if (hasHttpStream) {
+        logger.info(
+          `HTTP Stream endpoint: http://localhost:${port}/${name}${endpoint}`,
+        )
+      }
+    }
+  })
+}
@@ -0,0 +1,611 @@
+import express from 'express'
+import bodyParser from 'body-parser'
+import cors, { type CorsOptions } from 'cors'
+import { createServer, type Server } from 'http'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import { Logger, Upstream } from '../types.js'
+import { onSignals } from '../lib/onSignals.js'
+import { serializeCorsOrigin } from '../lib/serializeCorsOrigin.js'
+import { CHILD_EXITED_ERROR, superviseChild } from '../lib/superviseChild.js'
+import { sendHealth } from '../lib/sendHealth.js'
+import { describeFilterRules, type FilterRules } from '../lib/messageFilter.js'
+import { createRequestIdMultiplexer } from '../lib/requestIdMultiplexer.js'
+import { createInitializeCache } from '../lib/initializeCache.js'
+import { createHttpStreamServer } from '../server/httpStream.js'
+import { WebSocketServerTransport } from '../server/websocket.js'
+import { serveMetrics, trackSseSession } from '../lib/metrics.js'
+import { logMessage } from '../lib/logger.js'
+import type { EventStore } from '../lib/eventStore.js'
+import {
+  negotiatedVersionOf,
+  translateForClient,
+} from '../lib/protocolTranslation.js'
+import { handleSsePost } from '../lib/ssePost.js'
+
+export type MultipleOutputTransport = 'sse' | 'ws' | 'http-stream'
+
+export interface StdioToMultipleArgs {
+  stdioCmd: string
+  outputTransports: MultipleOutputTransport[]
+  port: number
+  baseUrl: string
+  ssePath: string
+  messagePath: string
+  endpoint: string
+  logger: Logger
+  corsOrigin: CorsOptions['origin']
+  healthEndpoints: string[]
+  metricsEndpoint?: string
+  headers: Record<string, string>
+  responseMode: 'auto' | 'batch' | 'stream'
+  batchTimeout: number
+  sessionHeaderName: string
+  eventStore?: EventStore
+  sessionIdleTimeout: number
+  maxSessions: number
+  maxRestarts: number
+  restartWindow: number
+  filter: FilterRules
+}
+
+const setResponseHeaders = ({
+  res,
+  headers,
+}: {
+  res: express.Response
+  headers: Record<string, string>
+}) =>
+  Object.entries(headers).forEach(([key, value]) => {
+    res.setHeader(key, value)
+  })
+
+export interface MountStdioServerArgs {
+  app: express.Express
+  httpServer: Server
+  stdioCmd: string
+  outputTransports: MultipleOutputTransport[]
+  baseUrl: string
+  ssePath: string
+  messagePath: string
+  endpoint: string
+  logger: Logger
+  headers: Record<string, string>
+  responseMode: 'auto' | 'batch' | 'stream'
+  batchTimeout: number
+  sessionHeaderName: string
+  eventStore?: EventStore
+  sessionIdleTimeout: number
+  maxSessions: number
+  maxRestarts: number
+  restartWindow: number
+  filter: FilterRules
+  sharedServer?: boolean
+}
+
+/**
+ * Starts a supervised stdio child and serves it over the given transports on
+ * an existing app and HTTP server. Used by stdioToMultiple for one server and
+ * by stdioServersToMultiple for several servers under their own paths.
+ *
+ * @param options Configuration options
+ * @param options.app Express app the routes are added to
+ * @param options.httpServer HTTP server the WebSocket endpoint is attached to
+ * @param options.sharedServer Leave WebSocket upgrades for other paths to other listeners
+ * @returns The restart count of the child and a function that stops everything
+ */
+export async function mountStdioServer(options: MountStdioServerArgs) {
+  const {
+    app,
+    httpServer,
+    stdioCmd,
+    outputTransports,
+    baseUrl,
+    ssePath,
+    messagePath,
+    endpoint,
+    logger,
+    headers,
+    responseMode,
+    batchTimeout,
+    sessionHeaderName,
+    eventStore,
+    sessionIdleTimeout,
+    maxSessions,
+    maxRestarts,
+    restartWindow,
+    filter,
+    sharedServer = false,
+  } = options
+
+  const hasSse = outputTransports.includes('sse')
+  const hasWs = outputTransports.includes('ws')
+  const hasHttpStream = outputTransports.includes('http-stream')
+
+  // Request IDs from every transport and session are rewritten into one ID
+  // space before they reach the child, and each answer is handed back to
+  // the function that delivers it to the client that asked
+  const mux = createRequestIdMultiplexer<(message: JSONRPCMessage) => void>()
+
+  // Called with every child message that isn't an answer, per transport
+  const broadcasts: ((message: JSONRPCMessage) => void)[] = []
+
+  // Delivers to each connected SSE and WebSocket client, by session ID. The
+  // HTTP Stream server delivers to its own sessions
+  const clients = new Map<string, (message: JSONRPCMessage) => void>()
+  let httpStream:
+    | { sessionCount: number; deliver: (message: JSONRPCMessage) => void }
+    | undefined
+
+  // Delivers to the only client connected over any transport, if just one is
+  const onlyClient = () => {
+    const httpStreamSessions = httpStream?.sessionCount ?? 0
+    if (clients.size + httpStreamSessions !== 1) return undefined
+    return httpStreamSessions ? httpStream?.deliver : [...clients.values()][0]
+  }
+
+  // The child is initialized once, every client is answered from the cache
+  const initializeCache = createInitializeCache({
+    logger,
+    // Let the child use sampling and roots, they are routed to the client
+    capabilities: { sampling: {}, roots: { listChanged: true } },
+  })
+
+  const writeToChild = (message: JSONRPCMessage) => {
+    child.write(message)
+  }
+
+  // Send a client message to the child, rewriting request IDs
+  const forwardToChild = (
+    sessionId: string,
+    message: JSONRPCMessage,
+    deliver: (message: JSONRPCMessage) => void,
+  ) => {
+    if ('method' in message && 'id' in message) {
+      writeToChild(
+        mux.outbound({ sessionId, request: message, context: deliver }),
+      )
+    } else if (
+      'method' in message &&
+      message.method === 'notifications/cancelled'
+    ) {
+      // The child knows the request by its rewritten ID, and won't answer
+      // it anymore
+      const cancelled = mux.cancel(sessionId, message)
+      if (cancelled) writeToChild(cancelled.message)
+    } else {
+      writeToChild(message)
+    }
+  }
+
+  // Protocol version each SSE session and WebSocket client negotiated, the
+  // HTTP Stream server tracks its own
+  const clientVersions = new Map<string, string>()
+
+  // Clients of older protocol versions than the child's get what they can read
+  const forClient = (sessionId: string, message: JSONRPCMessage) =>
+    translateForClient(message, clientVersions.get(sessionId))
+
+  // Answer initialize from the cache and swallow notifications/initialized,
+  // the child already got the gateway's own
+  const handleClientMessage = (
+    sessionId: string,
+    message: JSONRPCMessage,
+    deliver: (message: JSONRPCMessage) => void,
+  ) => {
+    if (
+      'method' in message &&
+      message.method === 'initialize' &&
+      'id' in message
+    ) {
+      initializeCache.respond(message).then((response) => {
+        const version = negotiatedVersionOf(response)
+        if (version) clientVersions.set(sessionId, version)
+        deliver(response)
+      })
+      return
+    }
+
+    if ('method' in message && message.method === 'notifications/initialized') {
+      return
+    }
+
+    forwardToChild(sessionId, message, deliver)
+  }
+
+  const child = superviseChild({
+    stdioCmd,
+    logger,
+    onMessage: (jsonMsg) => {
+      if (initializeCache.handleChildMessage(jsonMsg)) return
+
+      logMessage({
+        logger,
+        label: 'Child → Clients',
+        message: jsonMsg,
+        direction: 'server-to-client',
+      })
+
+      // Answers go back to the client that asked
+      if (jsonMsg.id !== undefined && jsonMsg.method === undefined) {
+        const routed = mux.inbound(jsonMsg)
+        if (routed) {
+          routed.context(routed.message)
+        } else {
+          logger.warn(`No pending request found for ID ${jsonMsg.id}`)
+        }
+        return
+      }
+
+      // Requests from the child go to the client whose requests it is
+      // working on, or to the only client. With requests of several clients
+      // in flight there's no telling which one it is for, and none of them
+      // may see it
+      if (jsonMsg.id !== undefined) {
+        const deliver = mux.soleOrigin(() => true)?.context ?? onlyClient()
+        if (deliver) {
+          deliver(jsonMsg)
+        } else {
+          logger.warn(
+            `Cannot tell which client ${jsonMsg.method} request ${jsonMsg.id} is for`,
+          )
+          writeToChild({
+            jsonrpc: '2.0',
+            id: jsonMsg.id,
+            error: {
+              code: -32603,
+              message: `No client available to handle ${jsonMsg.method}`,
+            },
+          })
+        }
+        return
+      }
+
+      for (const broadcast of broadcasts) {
+        broadcast(jsonMsg)
+      }
+    },
+    maxRestarts,
+    restartWindow,
+    filter,
+    // Don't leave clients waiting for answers that will never come
+    onExit: () => {
+      for (const { originalId, context } of mux.dropWhere(() => true)) {
+        context({ jsonrpc: '2.0', id: originalId, error: CHILD_EXITED_ERROR })
+      }
+    },
+    onRestart: (write) => initializeCache.start(write),
+    onGiveUp: (code) => process.exit(code ?? 1),
+  })
+  initializeCache.start(writeToChild)
+
+  const cleanups: (() => void | Promise<void>)[] = [
+    () => {
+      child.kill()
+    },
+  ]
+
+  if (hasHttpStream) {
+    // The HTTP Stream server tracks its own sessions, to the shared layer it
+    // is a single session whose requests all go through this upstream
+    const httpStreamUpstream: Upstream = {
+      send: (message) =>
+        forwardToChild('http-stream', message, (response) =>
+          server.handleUpstreamMessage(httpStreamUpstream, response),
+        ),
+      close: () => {},
+    }
+
+    const server = createHttpStreamServer({
+      app,
+      endpoint,
+      logger,
+      headers,
+      responseMode,
+      batchTimeout,
+      sessionHeaderName,
+      eventStore,
+      sessionIdleTimeout,
+      maxSessions,
+      sharedUpstream: httpStreamUpstream,
+      initializeCache,
+    })
+
+    const deliver = (message: JSONRPCMessage) =>
+      server.handleUpstreamMessage(httpStreamUpstream, message)
+    httpStream = {
+      get sessionCount() {
+        return server.sessionCount
+      },
+      deliver,
+    }
+    broadcasts.push(deliver)
+    cleanups.push(server.close)
+  }
+
+  if (hasSse) {
+    const sessions: Record<string, SSEServerTransport> = {}
+
+    app.get(ssePath, async (req, res) => {
+      logger.info(`New SSE connection from ${req.ip}`)
+
+      setResponseHeaders({
+        res,
+        headers,
+      })
+
+      const sseTransport = new SSEServerTransport(
+        `${baseUrl}${messagePath}`,
+        res,
+      )
+      trackSseSession(res)
+      const sessionId = sseTransport.sessionId
+      sessions[sessionId] = sseTransport
+
+      const deliver = (message: JSONRPCMessage) =>
+        sseTransport.send(forClient(sessionId, message)).catch((err) => {
+          logger.error(`Failed to send to session ${sessionId}:`, err)
+        })
+      clients.set(sessionId, deliver)
+
+      sseTransport.onmessage = (msg: JSONRPCMessage) => {
+        logMessage({
+          logger,
+          label: 'SSE → Child',
+          message: msg,
+          direction: 'client-to-server',
+          sessionId,
+        })
+        handleClientMessage(sessionId, msg, deliver)
+      }
+
+      sseTransport.onclose = () => {
+        logger.info(`SSE connection closed (session ${sessionId})`)
+        delete sessions[sessionId]
+        clients.delete(sessionId)
+        clientVersions.delete(sessionId)
+        mux.dropSession(sessionId)
+      }
+
+      sseTransport.onerror = (err) => {
+        logger.error(`SSE error (session ${sessionId}):`, err)
+      }
+
+      await sseTransport.start()
+    })
+
+    // The body is parsed here, so batches can be split before the transport
+    // sees them
+    app.post(
+      messagePath,
+      bodyParser.json({ limit: '4mb' }),
+      async (req, res) => {
+        const sessionId = req.query.sessionId as string
+
+        setResponseHeaders({
+          res,
+          headers,
+        })
+
+        if (!sessionId) {
+          res.status(400).send('Missing sessionId parameter')
+          return
+        }
+
+        const sseTransport = sessions[sessionId]
+        if (sseTransport) {
+          logger.debug(`POST to SSE transport (session ${sessionId})`)
+          await handleSsePost({ transport: sseTransport, req, res })
+        } else {
+          res
+            .status(503)
+            .send(`No active SSE connection for session ${sessionId}`)
+        }
+      },
+    )
+
+    broadcasts.push((message) => {
+      for (const [sessionId, sseTransport] of Object.entries(sessions)) {
+        sseTransport.send(forClient(sessionId, message)).catch((err) => {
+          logger.error(`Failed to send to session ${sessionId}:`, err)
+        })
+      }
+    })
+  }
+
+  if (hasWs) {
+    const wsTransport = new WebSocketServerTransport({
+      path: messagePath,
+      server: httpServer,
+      sharedServer,
+    })
+
+    const deliverTo = (clientId: string) => (message: JSONRPCMessage) =>
+      wsTransport.sendToClient(clientId, forClient(clientId, message))
+
+    wsTransport.onclientmessage = (msg: JSONRPCMessage, clientId: string) => {
+      logMessage({
+        logger,
+        label: 'WebSocket → Child',
+        message: msg,
+        direction: 'client-to-server',
+        sessionId: clientId,
+      })
+      handleClientMessage(clientId, msg, deliverTo(clientId))
+    }
+
+    // Connected clients, for broadcasts in each client's protocol version
+    const wsClients = new Set<string>()
+
+    wsTransport.onconnection = (clientId: string) => {
+      logger.info(`New WebSocket connection: ${clientId}`)
+      wsClients.add(clientId)
+      clients.set(clientId, deliverTo(clientId))
+    }
+
+    wsTransport.ondisconnection = (clientId: string) => {
+      logger.info(`WebSocket connection closed: ${clientId}`)
+      wsClients.delete(clientId)
+      clients.delete(clientId)
+      clientVersions.delete(clientId)
+      mux.dropSession(clientId)
+    }
+
+    wsTransport.onerror = (err: Error) => {
+      logger.error(`WebSocket error: ${err.message}`)
+    }
+
+    await wsTransport.start()
+
+    broadcasts.push((message) => {
+      for (const clientId of wsClients) {
+        wsTransport.sendToClient(clientId, forClient(clientId, message))
+      }
+    })
+    cleanups.push(() => wsTransport.close())
+  }
+
+  return {
+    get restarts() {
+      return child.restarts
+    },
+    close: async () => {
+      for (const cleanup of cleanups) {
+        await cleanup()
+      }
+    },
+  }
+}
+
+export async function stdioToMultiple(args: StdioToMultipleArgs) {
+  const {
+    stdioCmd,
+    outputTransports,
+    port,
+    baseUrl,
+    ssePath,
+    messagePath,
+    endpoint,
+    logger,
+    corsOrigin,
+    healthEndpoints,
+    metricsEndpoint,
+    headers,
+    responseMode,
+    batchTimeout,
+    sessionHeaderName,
+    eventStore,
+    sessionIdleTimeout,
+    maxSessions,
+    maxRestarts,
+    restartWindow,
+    filter,
+  } = args
+
+  const hasSse = outputTransports.includes('sse')
+  const hasWs = outputTransports.includes('ws')
+  const hasHttpStream = outputTransports.includes('http-stream')
+
+  logger.info(
+    `  - Headers: ${Object.keys(headers).length ? JSON.stringify(headers) : '(none)'}`,
+  )
+  logger.info(`  - port: ${port}`)
+  logger.info(`  - stdio: ${stdioCmd}`)
+  if (hasSse) {
+    if (baseUrl) {
+      logger.info(`  - baseUrl: ${baseUrl}`)
+    }
+    logger.info(`  - ssePath: ${ssePath}`)
+  }
+  if (hasSse || hasWs) {
+    logger.info(`  - messagePath: ${messagePath}`)
+  }
+  if (hasHttpStream) {
+    logger.info(`  - endpoint: ${endpoint}`)
+    logger.info(`  - responseMode: ${responseMode}`)
+    logger.info(`  - batchTimeout: ${batchTimeout}ms`)
+    logger.info(`  - sessionHeaderName: ${sessionHeaderName}`)
+    logger.info(`  - sessionIdleTimeout: ${sessionIdleTimeout}ms`)
+    logger.info(`  - maxSessions: ${maxSessions || 'unlimited'}`)
+  }
+  logger.info(`  - maxRestarts: ${maxRestarts}`)
+  logger.info(`  - restartWindow: ${restartWindow}ms`)
+  logger.info(`  - filter: ${describeFilterRules(filter)}`)
+  logger.info(
+    `  - CORS: enabled (${corsOrigin ? serializeCorsOrigin({ corsOrigin }) : '*'})`,
+  )
+  logger.info(
+    `  - Health endpoints: ${healthEndpoints.length ? healthEndpoints.join(', ') : '(none)'}`,
+  )
+  logger.info(`  - Metrics endpoint: ${metricsEndpoint || '(none)'}`)
+
+  const app = express()
+  serveMetrics({ app, metricsEndpoint })
+
+  // Always enable CORS, but use specified origins if provided
+  app.use(
+    cors({
+      origin: corsOrigin || '*',
+      methods: 'GET, POST, DELETE, OPTIONS',
+      allowedHeaders:
+        'Content-Type, Accept, Authorization, x-api-key, Last-Event-ID, MCP-Protocol-Version',
+      exposedHeaders: 'Content-Type, Authorization, x-api-key, Mcp-Session-Id',
+      credentials: true,
+    }),
+  )
+
+  const httpServer = createServer(app)
+
+  const server = await mountStdioServer({
+    app,
+    httpServer,
+    stdioCmd,
+    outputTransports,
+    baseUrl,
+    ssePath,
+    messagePath,
+    endpoint,
+    logger,
+    headers,
+    responseMode,
+    batchTimeout,
+    sessionHeaderName,
+    eventStore,
+    sessionIdleTimeout,
+    maxSessions,
+    maxRestarts,
+    restartWindow,
+    filter,
+  })
+
+  for (const ep of healthEndpoints) {
+    app.get(ep, (req, res) => {
+      setResponseHeaders({
+        res,
+        headers,
+      })
+      sendHealth({ req, res, details: { restarts: server.restarts } })
+    })
+  }
+
+  onSignals({
+    logger,
+    cleanup: server.close,
+  })
+
+  httpServer.listen(port, () => {
+    logger.info(`Listening on port ${port}`)
+    if (hasSse) {
+      logger.info(`SSE endpoint: http://localhost:${port}${ssePath}`)
+      logger.info(`POST messages: http://localhost:${port}${messagePath}`)
+    }
+    if (hasWs) {
+      logger.info(`WebSocket endpoint: ws://localhost:${port}${messagePath}`)
+    }
+    if (hasHttpStream) {
+      logger.info(`HTTP Stream endpoint: http://localhost:${port}${endpoint}`)
+    }
+  })
+}
+
+export type MountedStdioServer = Awaited<ReturnType<typeof mountStdioServer>>
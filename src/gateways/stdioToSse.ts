@@ -1,14 +1,27 @@
 import express from 'express'
 import bodyParser from 'body-parser'
 import cors, { type CorsOptions } from 'cors'
-import { spawn, ChildProcessWithoutNullStreams } from 'child_process'
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
 import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
-import { Logger } from '../types.js'
+import { Logger, MessageDirection } from '../types.js'
 import { getVersion } from '../lib/getVersion.js'
 import { onSignals } from '../lib/onSignals.js'
 import { serializeCorsOrigin } from '../lib/serializeCorsOrigin.js'
+import { CHILD_EXITED_ERROR, superviseChild } from '../lib/superviseChild.js'
+import { sendHealth } from '../lib/sendHealth.js'
+import { describeFilterRules, type FilterRules } from '../lib/messageFilter.js'
+import { createInitializeCache } from '../lib/initializeCache.js'
+import { createRequestIdMultiplexer } from '../lib/requestIdMultiplexer.js'
+import { serveMetrics, trackSseSession } from '../lib/metrics.js'
+import { logMessage } from '../lib/logger.js'
+import type { Recorder } from '../lib/recorder.js'
+import type { Auth } from '../lib/auth.js'
+import {
+  negotiatedVersionOf,
+  translateForClient,
+} from '../lib/protocolTranslation.js'
+import { handleSsePost } from '../lib/ssePost.js'
 
 export interface StdioToSseArgs {
   stdioCmd: string
@@ -19,7 +32,13 @@ export interface StdioToSseArgs {
   logger: Logger
   corsOrigin: CorsOptions['origin']
   healthEndpoints: string[]
+  metricsEndpoint?: string
   headers: Record<string, string>
+  maxRestarts: number
+  restartWindow: number
+  filter: FilterRules
+  recorder?: Recorder
+  auth?: Auth
 }
 
 const setResponseHeaders = ({
@@ -43,7 +62,13 @@ export async function stdioToSse(args: StdioToSseArgs) {
     logger,
     corsOrigin,
     healthEndpoints,
+    metricsEndpoint,
     headers,
+    maxRestarts,
+    restartWindow,
+    filter,
+    recorder,
+    auth,
   } = args
 
   logger.info(
@@ -56,6 +81,9 @@ export async function stdioToSse(args: StdioToSseArgs) {
   }
   logger.info(`  - ssePath: ${ssePath}`)
   logger.info(`  - messagePath: ${messagePath}`)
+  logger.info(`  - maxRestarts: ${maxRestarts}`)
+  logger.info(`  - restartWindow: ${restartWindow}ms`)
+  logger.info(`  - filter: ${describeFilterRules(filter)}`)
 
   logger.info(
     `  - CORS: ${corsOrigin ? `enabled (${serializeCorsOrigin({ corsOrigin })})` : 'disabled'}`,
@@ -63,48 +91,162 @@ export async function stdioToSse(args: StdioToSseArgs) {
   logger.info(
     `  - Health endpoints: ${healthEndpoints.length ? healthEndpoints.join(', ') : '(none)'}`,
   )
+  logger.info(`  - Metrics endpoint: ${metricsEndpoint || '(none)'}`)
 
   onSignals({ logger })
 
-  const child: ChildProcessWithoutNullStreams = spawn(stdioCmd, { shell: true })
-  child.on('exit', (code, signal) => {
-    logger.error(`Child exited: code=${code}, signal=${signal}`)
-    process.exit(code ?? 1)
-  })
+  // The child is initialized once, every SSE session is answered from the cache
+  const initializeCache = createInitializeCache({ logger })
 
-  const server = new Server(
-    { name: 'supergateway', version: getVersion() },
-    { capabilities: {} },
-  )
+  const writeToChild = (message: JSONRPCMessage) => {
+    child.write(message)
+  }
+
+  const record = (
+    sessionId: string,
+    direction: MessageDirection,
+    message: JSONRPCMessage,
+  ) => recorder?.record({ direction, sessionId, transport: 'sse', message })
 
   const sessions: Record<
     string,
-    { transport: SSEServerTransport; response: express.Response }
+    {
+      transport: SSEServerTransport
+      response: express.Response
+      // Protocol version the client negotiated
+      protocolVersion?: string
+    }
   > = {}
 
+  // Request IDs of every session are rewritten before they reach the child,
+  // so each answer goes back to the session that asked
+  const mux = createRequestIdMultiplexer<undefined>()
+
+  const sendToSession = (sessionId: string, jsonMsg: JSONRPCMessage) => {
+    const session = sessions[sessionId]
+    if (!session) return
+
+    try {
+      // Clients of older protocol versions than the child's get what they
+      // can read
+      const message = translateForClient(jsonMsg, session.protocolVersion)
+      record(sessionId, 'server-to-client', message)
+      session.transport.send(message).catch((err) => {
+        logger.error(`Failed to send to session ${sessionId}:`, err)
+      })
+    } catch (err) {
+      logger.error(`Failed to send to session ${sessionId}:`, err)
+      delete sessions[sessionId]
+      mux.dropSession(sessionId)
+    }
+  }
+
+  const child = superviseChild({
+    stdioCmd,
+    logger,
+    onMessage: (jsonMsg) => {
+      if (initializeCache.handleChildMessage(jsonMsg)) return
+
+      logMessage({
+        logger,
+        label: 'Child → SSE',
+        message: jsonMsg,
+        direction: 'server-to-client',
+      })
+
+      // Answers go back to the session that asked
+      if (jsonMsg.id !== undefined && jsonMsg.method === undefined) {
+        const routed = mux.inbound(jsonMsg)
+        if (routed) {
+          sendToSession(routed.sessionId, routed.message)
+        } else {
+          logger.warn(`No pending request found for ID ${jsonMsg.id}`)
+        }
+        return
+      }
+
+      // Requests from the child go to the session whose requests it is
+      // working on, or to the only session. They are refused while several
+      // sessions have requests in flight, as none of them may see another
+      // one's
+      if (jsonMsg.id !== undefined) {
+        const sessionIds = Object.keys(sessions)
+        const sessionId =
+          mux.soleOrigin(() => true)?.sessionId ??
+          (sessionIds.length === 1 ? sessionIds[0] : undefined)
+        if (sessionId) {
+          sendToSession(sessionId, jsonMsg)
+        } else {
+          logger.warn(
+            `Cannot tell which session ${jsonMsg.method} request ${jsonMsg.id} is for`,
+          )
+          writeToChild({
+            jsonrpc: '2.0',
+            id: jsonMsg.id,
+            error: {
+              code: -32603,
+              message: `No client available to handle ${jsonMsg.method}`,
+            },
+          })
+        }
+        return
+      }
+
+      for (const sessionId of Object.keys(sessions)) {
+        sendToSession(sessionId, jsonMsg)
+      }
+    },
+    maxRestarts,
+    restartWindow,
+    filter,
+    // Don't leave sessions waiting for answers that will never come
+    onExit: () => {
+      for (const { sessionId, originalId } of mux.dropWhere(() => true)) {
+        sendToSession(sessionId, {
+          jsonrpc: '2.0',
+          id: originalId,
+          error: CHILD_EXITED_ERROR,
+        })
+      }
+    },
+    onRestart: (write) => initializeCache.start(write),
+    onGiveUp: (code) => process.exit(code ?? 1),
+  })
+  initializeCache.start(writeToChild)
+
   const app = express()
 
   if (corsOrigin) {
     app.use(cors({ origin: corsOrigin }))
   }
 
+  // Scrapers don't send credentials, so metrics are served before auth
+  serveMetrics({ app, metricsEndpoint })
+
+  // Every other route but the health endpoints needs credentials
+  auth?.protect({ app, exempt: healthEndpoints, resourcePath: ssePath })
+
   app.use((req, res, next) => {
     if (req.path === messagePath) return next()
     return bodyParser.json()(req, res, next)
   })
 
   for (const ep of healthEndpoints) {
-    app.get(ep, (_req, res) => {
+    app.get(ep, (req, res) => {
       setResponseHeaders({
         res,
         headers,
       })
-      res.send('ok')
+      sendHealth({ req, res, details: { restarts: child.restarts } })
     })
   }
 
   app.get(ssePath, async (req, res) => {
-    logger.info(`New SSE connection from ${req.ip}`)
+    // Logs with the client's token subject and scopes
+    const sessionLogger = auth
+      ? logger.withFields(auth.logFields(auth.principalOf(req)))
+      : logger
+    sessionLogger.info(`New SSE connection from ${req.ip}`)
 
     setResponseHeaders({
       res,
@@ -112,36 +254,92 @@ export async function stdioToSse(args: StdioToSseArgs) {
     })
 
     const sseTransport = new SSEServerTransport(`${baseUrl}${messagePath}`, res)
+    trackSseSession(res)
+    // One Server per connection, the SDK refuses to reuse a connected one
+    const server = new Server(
+      { name: 'supergateway', version: getVersion() },
+      { capabilities: {} },
+    )
     await server.connect(sseTransport)
 
     const sessionId = sseTransport.sessionId
     if (sessionId) {
-      sessions[sessionId] = { transport: sseTransport, response: res }
+      sessions[sessionId] = {
+        transport: sseTransport,
+        response: res,
+      }
     }
 
     sseTransport.onmessage = (msg: JSONRPCMessage) => {
-      logger.info(`SSE → Child (session ${sessionId}): ${JSON.stringify(msg)}`)
-      child.stdin.write(JSON.stringify(msg) + '\n')
+      logMessage({
+        logger: sessionLogger,
+        label: 'SSE → Child',
+        message: msg,
+        direction: 'client-to-server',
+        sessionId,
+      })
+      record(sessionId, 'client-to-server', msg)
+
+      if ('method' in msg && msg.method === 'initialize' && 'id' in msg) {
+        initializeCache.respond(msg).then((response) => {
+          if (sessions[sessionId]) {
+            sessions[sessionId].protocolVersion = negotiatedVersionOf(response)
+          }
+          record(sessionId, 'server-to-client', response)
+          sseTransport.send(response).catch((err) => {
+            logger.error(`Failed to send to session ${sessionId}:`, err)
+          })
+        })
+        return
+      }
+
+      // The child already got the gateway's notifications/initialized
+      if ('method' in msg && msg.method === 'notifications/initialized') {
+        return
+      }
+
+      if ('method' in msg && 'id' in msg) {
+        writeToChild(
+          mux.outbound({ sessionId, request: msg, context: undefined }),
+        )
+        return
+      }
+
+      // The child knows the request by its rewritten ID, and won't answer
+      // it anymore
+      if ('method' in msg && msg.method === 'notifications/cancelled') {
+        const cancelled = mux.cancel(sessionId, msg)
+        if (cancelled) writeToChild(cancelled.message)
+        return
+      }
+
+      writeToChild(msg)
+    }
+
+    const endSession = () => {
+      delete sessions[sessionId]
+      mux.dropSession(sessionId)
     }
 
     sseTransport.onclose = () => {
       logger.info(`SSE connection closed (session ${sessionId})`)
-      delete sessions[sessionId]
+      endSession()
     }
 
     sseTransport.onerror = (err) => {
       logger.error(`SSE error (session ${sessionId}):`, err)
-      delete sessions[sessionId]
+      endSession()
     }
 
     req.on('close', () => {
       logger.info(`Client disconnected (session ${sessionId})`)
-      delete sessions[sessionId]
+      endSession()
     })
   })
 
-  // @ts-ignore
-  app.post(messagePath, async (req, res) => {
+  // The body is parsed here, so tool calls can be checked and batches split
+  // before the transport sees them
+  app.post(messagePath, bodyParser.json({ limit: '4mb' }), async (req, res) => {
     const sessionId = req.query.sessionId as string
 
     setResponseHeaders({
@@ -150,13 +348,33 @@ export async function stdioToSse(args: StdioToSseArgs) {
     })
 
     if (!sessionId) {
-      return res.status(400).send('Missing sessionId parameter')
+      res.status(400).send('Missing sessionId parameter')
+      return
     }
 
     const session = sessions[sessionId]
-    if (session?.transport?.handlePostMessage) {
-      logger.info(`POST to SSE transport (session ${sessionId})`)
-      await session.transport.handlePostMessage(req, res)
+    if (session) {
+      const isBatch = Array.isArray(req.body)
+      const forbidden = auth
+        ? (isBatch ? req.body : [req.body]).flatMap((message: unknown) => {
+            const error = auth.checkRequestMessage(req, message)
+            if (!error) return []
+
+            const id =
+              typeof message === 'object' && message && 'id' in message
+                ? message.id
+                : null
+            return [{ jsonrpc: '2.0', error, id }]
+          })
+        : []
+      if (forbidden.length) {
+        logger.warn(`Rejected forbidden message in session ${sessionId}`)
+        res.status(403).json(isBatch ? forbidden : forbidden[0])
+        return
+      }
+
+      logger.debug(`POST to SSE transport (session ${sessionId})`)
+      await handleSsePost({ transport: session.transport, req, res })
     } else {
       res.status(503).send(`No active SSE connection for session ${sessionId}`)
     }
@@ -167,32 +385,4 @@ export async function stdioToSse(args: StdioToSseArgs) {
     logger.info(`SSE endpoint: http://localhost:${port}${ssePath}`)
     logger.info(`POST messages: http://localhost:${port}${messagePath}`)
   })
-
-  let buffer = ''
-  child.stdout.on('data', (chunk: Buffer) => {
-    buffer += chunk.toString('utf8')
-    const lines = buffer.split(/\r?\n/)
-    buffer = lines.pop() ?? ''
-    lines.forEach((line) => {
-      if (!line.trim()) return
-      try {
-        const jsonMsg = JSON.parse(line)
-        logger.info('Child → SSE:', jsonMsg)
-        for (const [sid, session] of Object.entries(sessions)) {
-          try {
-            session.transport.send(jsonMsg)
-          } catch (err) {
-            logger.error(`Failed to send to session ${sid}:`, err)
-            delete sessions[sid]
-          }
-        }
-      } catch {
-        logger.error(`Child non-JSON: ${line}`)
-      }
-    })
-  })
-
-  child.stderr.on('data', (chunk: Buffer) => {
-    logger.error(`Child stderr: ${chunk.toString('utf8')}`)
-  })
 }
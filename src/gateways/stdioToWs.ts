@@ -1,14 +1,29 @@
 import express from 'express'
 import cors, { type CorsOptions } from 'cors'
 import { createServer } from 'http'
-import { spawn, ChildProcessWithoutNullStreams } from 'child_process'
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
-import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
-import { Logger } from '../types.js'
+import { JSONRPCMessage, RequestId } from '@modelcontextprotocol/sdk/types.js'
+import { Logger, MessageDirection } from '../types.js'
 import { getVersion } from '../lib/getVersion.js'
 import { WebSocketServerTransport } from '../server/websocket.js'
 import { onSignals } from '../lib/onSignals.js'
 import { serializeCorsOrigin } from '../lib/serializeCorsOrigin.js'
+import {
+  CHILD_EXITED_ERROR,
+  superviseChild,
+  type SupervisedChild,
+} from '../lib/superviseChild.js'
+import { sendHealth } from '../lib/sendHealth.js'
+import { describeFilterRules, type FilterRules } from '../lib/messageFilter.js'
+import { createInitializeCache } from '../lib/initializeCache.js'
+import { serveMetrics } from '../lib/metrics.js'
+import { logMessage } from '../lib/logger.js'
+import type { Recorder } from '../lib/recorder.js'
+import {
+  negotiatedVersionOf,
+  translateForClient,
+} from '../lib/protocolTranslation.js'
+import { UNAUTHORIZED_ERROR, type Auth, type Principal } from '../lib/auth.js'
 
 export interface StdioToWsArgs {
   stdioCmd: string
@@ -17,23 +32,45 @@ export interface StdioToWsArgs {
   logger: Logger
   corsOrigin: CorsOptions['origin']
   healthEndpoints: string[]
+  metricsEndpoint?: string
+  maxRestarts: number
+  restartWindow: number
+  filter: FilterRules
+  recorder?: Recorder
+  auth?: Auth
 }
 
 export async function stdioToWs(args: StdioToWsArgs) {
-  const { stdioCmd, port, messagePath, logger, healthEndpoints, corsOrigin } =
-    args
+  const {
+    stdioCmd,
+    port,
+    messagePath,
+    logger,
+    healthEndpoints,
+    metricsEndpoint,
+    corsOrigin,
+    maxRestarts,
+    restartWindow,
+    filter,
+    recorder,
+    auth,
+  } = args
   logger.info(`  - port: ${port}`)
   logger.info(`  - stdio: ${stdioCmd}`)
   logger.info(`  - messagePath: ${messagePath}`)
+  logger.info(`  - maxRestarts: ${maxRestarts}`)
+  logger.info(`  - restartWindow: ${restartWindow}ms`)
+  logger.info(`  - filter: ${describeFilterRules(filter)}`)
   logger.info(
     `  - CORS: ${corsOrigin ? `enabled (${serializeCorsOrigin({ corsOrigin })})` : 'disabled'}`,
   )
   logger.info(
     `  - Health endpoints: ${healthEndpoints.length ? healthEndpoints.join(', ') : '(none)'}`,
   )
+  logger.info(`  - Metrics endpoint: ${metricsEndpoint || '(none)'}`)
 
   let wsTransport: WebSocketServerTransport | null = null
-  let child: ChildProcessWithoutNullStreams | null = null
+  let child: SupervisedChild | null = null
   let isReady = false
 
   const cleanup = () => {
@@ -52,43 +89,107 @@ export async function stdioToWs(args: StdioToWsArgs) {
     cleanup,
   })
 
-  try {
-    child = spawn(stdioCmd, { shell: true })
-    child.on('exit', (code, signal) => {
-      logger.error(`Child exited: code=${code}, signal=${signal}`)
-      cleanup()
-      process.exit(code ?? 1)
+  // The child is initialized once, every WebSocket client is answered from the cache
+  const initializeCache = createInitializeCache({ logger })
+
+  const writeToChild = (message: JSONRPCMessage) => {
+    child!.write(message)
+  }
+
+  // Requests the child hasn't answered yet, with the clientId prefix
+  const inFlight = new Set<RequestId>()
+
+  // Who each client connected as, a logger with its token subject, and the
+  // protocol version it negotiated
+  const clients = new Map<
+    string,
+    {
+      principal: Principal | undefined
+      logger: Logger
+      protocolVersion?: string
+    }
+  >()
+
+  const record = (
+    clientId: string,
+    direction: MessageDirection,
+    message: JSONRPCMessage,
+  ) =>
+    recorder?.record({
+      direction,
+      sessionId: clientId,
+      transport: 'ws',
+      message,
     })
 
-    const server = new Server(
-      { name: 'supergateway', version: getVersion() },
-      { capabilities: {} },
-    )
+  // Answers carry their client in the "clientId:id" prefix, which the
+  // transport strips before sending. Broadcasts don't reach any client
+  const recordToClient = (message: any) => {
+    const [clientId, id] = `${message.id}`.split(':')
+    if (id === undefined) return
+    record(clientId, 'server-to-client', { ...message, id: parseInt(id) })
+  }
+
+  try {
+    child = superviseChild({
+      stdioCmd,
+      logger,
+      onMessage: (jsonMsg) => {
+        if (initializeCache.handleChildMessage(jsonMsg)) return
+
+        if (jsonMsg.id !== undefined && jsonMsg.method === undefined) {
+          inFlight.delete(jsonMsg.id)
+        }
+
+        logMessage({
+          logger,
+          label: 'Child → WebSocket',
+          message: jsonMsg,
+          direction: 'server-to-client',
+        })
 
-    // Handle child process output
-    let buffer = ''
-    child.stdout.on('data', (chunk: Buffer) => {
-      buffer += chunk.toString('utf8')
-      const lines = buffer.split(/\r?\n/)
-      buffer = lines.pop() ?? ''
-      lines.forEach((line) => {
-        if (!line.trim()) return
-        try {
-          const jsonMsg = JSON.parse(line)
-          logger.info(`Child → WebSocket: ${JSON.stringify(jsonMsg)}`)
-          // Broadcast to all connected clients
-          wsTransport?.send(jsonMsg, jsonMsg.id).catch((err) => {
+        // Clients of older protocol versions than the child's get what they
+        // can read
+        const [clientId] = `${jsonMsg.id}`.split(':')
+        const message = translateForClient(
+          jsonMsg,
+          clients.get(clientId)?.protocolVersion,
+        )
+        recordToClient(message)
+        // Broadcast to all connected clients
+        wsTransport
+          ?.send(message, { relatedRequestId: jsonMsg.id })
+          .catch((err) => {
             logger.error('Failed to broadcast message:', err)
           })
-        } catch {
-          logger.error(`Child non-JSON: ${line}`)
+      },
+      maxRestarts,
+      restartWindow,
+      filter,
+      // Don't leave clients waiting for answers that will never come
+      onExit: () => {
+        for (const id of inFlight) {
+          const response: JSONRPCMessage = {
+            jsonrpc: '2.0',
+            id,
+            error: CHILD_EXITED_ERROR,
+          }
+          recordToClient(response)
+          wsTransport?.send(response, { relatedRequestId: id }).catch((err) => {
+            logger.error('Failed to send error response:', err)
+          })
         }
-      })
+        inFlight.clear()
+      },
+      onRestart: (write) => initializeCache.start(write),
+      onGiveUp: (code) => process.exit(code ?? 1),
     })
+    initializeCache.start(writeToChild)
 
-    child.stderr.on('data', (chunk: Buffer) => {
-      logger.info(`Child stderr: ${chunk.toString('utf8')}`)
-    })
+    const server = new Server(
+      { name: 'supergateway', version: getVersion() },
+      { capabilities: {} },
+    )
 
     const app = express()
 
@@ -96,9 +197,15 @@ export async function stdioToWs(args: StdioToWsArgs) {
       app.use(cors({ origin: corsOrigin }))
     }
 
+    // Scrapers don't send credentials, so metrics are served before auth
+    serveMetrics({ app, metricsEndpoint })
+
+    // Every other route but the health endpoints needs credentials
+    auth?.protect({ app, exempt: healthEndpoints, resourcePath: messagePath })
+
     for (const ep of healthEndpoints) {
-      app.get(ep, (_req, res) => {
-        if (child?.killed) {
+      app.get(ep, (req, res) => {
+        if (child?.child.killed) {
           res.status(500).send('Child process has been killed')
         }
 
@@ -106,7 +213,7 @@ export async function stdioToWs(args: StdioToWsArgs) {
           res.status(500).send('Server is not ready')
         }
 
-        res.send('ok')
+        sendHealth({ req, res, details: { restarts: child?.restarts ?? 0 } })
       })
     }
 
@@ -115,22 +222,103 @@ export async function stdioToWs(args: StdioToWsArgs) {
     wsTransport = new WebSocketServerTransport({
       path: messagePath,
       server: httpServer,
+      verifyClient: auth
+        ? async (req) =>
+            (await auth.authenticate(req))
+              ? undefined
+              : {
+                  status: 401,
+                  body: { jsonrpc: '2.0', error: UNAUTHORIZED_ERROR, id: null },
+                  headers: {
+                    'WWW-Authenticate': auth.challenge(req, messagePath),
+                  },
+                }
+        : undefined,
     })
 
     await server.connect(wsTransport)
 
-    wsTransport.onmessage = (msg: JSONRPCMessage) => {
-      const line = JSON.stringify(msg)
-      logger.info(`WebSocket → Child: ${line}`)
-      child!.stdin.write(line + '\n')
+    const handleClientMessage = (msg: JSONRPCMessage, clientLogger: Logger) => {
+      logMessage({
+        logger: clientLogger,
+        label: 'WebSocket → Child',
+        message: msg,
+        direction: 'client-to-server',
+      })
+
+      if ('method' in msg && msg.method === 'initialize' && 'id' in msg) {
+        initializeCache.respond(msg).then((response) => {
+          const client = clients.get(`${msg.id}`.split(':')[0])
+          if (client) client.protocolVersion = negotiatedVersionOf(response)
+          recordToClient(response)
+          wsTransport!
+            .send(response, { relatedRequestId: msg.id })
+            .catch((err) => {
+              logger.error('Failed to send initialize response:', err)
+            })
+        })
+        return
+      }
+
+      // The child already got the gateway's notifications/initialized
+      if ('method' in msg && msg.method === 'notifications/initialized') {
+        return
+      }
+
+      if ('method' in msg && 'id' in msg) {
+        inFlight.add(msg.id)
+      }
+      writeToChild(msg)
+    }
+
+    // Like the transport's onmessage, requests and answers get the client's ID
+    // as prefix, but notifications keep their client for the recording too
+    wsTransport.onclientmessage = (msg: JSONRPCMessage, clientId: string) => {
+      record(clientId, 'client-to-server', msg)
+      const client = clients.get(clientId)
+      const clientLogger = client?.logger ?? logger
+
+      const error = auth?.checkMessage(client?.principal, msg)
+      if (error && 'id' in msg) {
+        clientLogger.warn(`Rejected forbidden message from ${clientId}`)
+        const response: JSONRPCMessage = { jsonrpc: '2.0', id: msg.id, error }
+        record(clientId, 'server-to-client', response)
+        wsTransport!.sendToClient(clientId, response).catch((err) => {
+          logger.error('Failed to send error response:', err)
+        })
+        return
+      }
+
+      // The child knows the cancelled request by its prefixed ID, and won't
+      // answer it anymore
+      if ('method' in msg && msg.method === 'notifications/cancelled') {
+        const requestId = `${clientId}:${msg.params?.requestId}`
+        if (!inFlight.delete(requestId)) return
+        handleClientMessage(
+          { ...msg, params: { ...msg.params, requestId } },
+          clientLogger,
+        )
+        return
+      }
+
+      handleClientMessage(
+        'id' in msg ? { ...msg, id: `${clientId}:${msg.id}` } : msg,
+        clientLogger,
+      )
     }
 
-    wsTransport.onconnection = (clientId: string) => {
-      logger.info(`New WebSocket connection: ${clientId}`)
+    wsTransport.onconnection = (clientId, req) => {
+      const principal = auth?.principalOf(req)
+      const clientLogger = auth
+        ? logger.withFields(auth.logFields(principal))
+        : logger
+      clients.set(clientId, { principal, logger: clientLogger })
+      clientLogger.info(`New WebSocket connection: ${clientId}`)
     }
 
     wsTransport.ondisconnection = (clientId: string) => {
       logger.info(`WebSocket connection closed: ${clientId}`)
+      clients.delete(clientId)
     }
 
     wsTransport.onerror = (err: Error) => {
@@ -0,0 +1,122 @@
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import { Logger } from '../types.js'
+import { onSignals } from '../lib/onSignals.js'
+import { logMessage } from '../lib/logger.js'
+
+export interface StreamableHttpToStdioArgs {
+  streamableHttpUrl: string
+  logger: Logger
+  headers: Record<string, string>
+}
+
+// How long to wait for the session DELETE before exiting anyway
+const TERMINATE_TIMEOUT = 3000
+
+export async function streamableHttpToStdio(args: StreamableHttpToStdioArgs) {
+  const { streamableHttpUrl, logger, headers } = args
+
+  logger.info(`  - streamableHttp: ${streamableHttpUrl}`)
+  logger.info(
+    `  - Headers: ${Object.keys(headers).length ? JSON.stringify(headers) : '(none)'}`,
+  )
+  logger.info('Connecting to Streamable HTTP...')
+
+  // Mcp-Session-Id is picked up from the initialize response, the GET stream
+  // for server messages is opened after notifications/initialized and resumed
+  // with Last-Event-ID when it drops
+  const httpTransport = new StreamableHTTPClientTransport(
+    new URL(streamableHttpUrl),
+    {
+      requestInit: {
+        headers,
+      },
+      reconnectionOptions: {
+        initialReconnectionDelay: 1000,
+        maxReconnectionDelay: 30000,
+        reconnectionDelayGrowFactor: 1.5,
+        maxRetries: 5,
+      },
+    },
+  )
+
+  const stdioTransport = new StdioServerTransport()
+
+  onSignals({
+    logger,
+    cleanup: async () => {
+      if (!httpTransport.sessionId) return
+
+      logger.info(`Terminating session ${httpTransport.sessionId}`)
+      await Promise.race([
+        httpTransport.terminateSession().catch((err) => {
+          logger.error('Failed to terminate session:', err)
+        }),
+        new Promise((resolve) => setTimeout(resolve, TERMINATE_TIMEOUT)),
+      ])
+    },
+  })
+
+  httpTransport.onerror = (err) => {
+    logger.error('Streamable HTTP error:', err)
+  }
+
+  httpTransport.onclose = () => {
+    logger.error('Streamable HTTP connection closed')
+    process.exit(1)
+  }
+
+  httpTransport.onmessage = (message: JSONRPCMessage) => {
+    logMessage({
+      logger,
+      label: 'Streamable HTTP → Stdio',
+      message,
+      direction: 'server-to-client',
+    })
+    stdioTransport.send(message).catch((err) => {
+      logger.error('Failed to write to stdout:', err)
+    })
+  }
+
+  stdioTransport.onerror = (err) => {
+    logger.error('Stdio error:', err)
+  }
+
+  stdioTransport.onmessage = async (message: JSONRPCMessage) => {
+    logMessage({
+      logger,
+      label: 'Stdio → Streamable HTTP',
+      message,
+      direction: 'client-to-server',
+    })
+
+    try {
+      await httpTransport.send(message)
+    } catch (err) {
+      logger.error('Request error:', err)
+
+      // Requests still need an answer, notifications and responses are dropped
+      if (!('method' in message) || !('id' in message)) return
+
+      // StreamableHTTPError carries the HTTP status, only keep JSON-RPC codes
+      const code = err instanceof Error && 'code' in err ? err.code : undefined
+      const errorCode = typeof code === 'number' && code < 0 ? code : -32000
+      const errorMsg = err instanceof Error ? err.message : 'Internal error'
+
+      await stdioTransport.send({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code: errorCode,
+          message: errorMsg,
+        },
+      })
+    }
+  }
+
+  await httpTransport.start()
+  await stdioTransport.start()
+
+  logger.info('Stdio server listening')
+}
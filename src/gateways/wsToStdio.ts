@@ -0,0 +1,162 @@
+import { WebSocket } from 'ws'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import type {
+  JSONRPCMessage,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js'
+import { Logger } from '../types.js'
+import { onSignals } from '../lib/onSignals.js'
+import { logMessage } from '../lib/logger.js'
+
+export interface WsToStdioArgs {
+  wsUrl: string
+  logger: Logger
+  headers: Record<string, string>
+}
+
+// How often to ping the server, a ping without pong by the next one drops the connection
+const PING_INTERVAL = 30000
+
+export async function wsToStdio(args: WsToStdioArgs) {
+  const { wsUrl, logger, headers } = args
+
+  logger.info(`  - ws: ${wsUrl}`)
+  logger.info(
+    `  - Headers: ${Object.keys(headers).length ? JSON.stringify(headers) : '(none)'}`,
+  )
+  logger.info('Connecting to WebSocket...')
+
+  const ws = new WebSocket(wsUrl, ['mcp'], { headers })
+  const stdioTransport = new StdioServerTransport()
+
+  // Messages from stdin that arrived before the connection was open
+  const queue: JSONRPCMessage[] = []
+  // Requests sent or queued for the server that are still waiting for an answer
+  const pending = new Set<RequestId>()
+  let closed = false
+  let isAlive = true
+  let keepalive: NodeJS.Timeout | undefined
+
+  onSignals({
+    logger,
+    cleanup: () => {
+      closed = true
+      ws.close()
+    },
+  })
+
+  const sendError = (id: RequestId, message: string) =>
+    stdioTransport
+      .send({
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32000,
+          message,
+        },
+      })
+      .catch((err) => {
+        logger.error('Failed to write to stdout:', err)
+      })
+
+  ws.on('open', () => {
+    logger.info('WebSocket connected')
+
+    for (const message of queue.splice(0)) {
+      ws.send(JSON.stringify(message))
+    }
+
+    keepalive = setInterval(() => {
+      if (!isAlive) {
+        logger.error('WebSocket ping timed out')
+        ws.terminate()
+        return
+      }
+
+      isAlive = false
+      ws.ping()
+    }, PING_INTERVAL)
+  })
+
+  ws.on('pong', () => {
+    isAlive = true
+  })
+
+  ws.on('message', (data) => {
+    let message
+    try {
+      message = JSON.parse(data.toString())
+    } catch (err) {
+      logger.error(`WebSocket non-JSON: ${data}, Error: ${String(err)}`)
+      return
+    }
+
+    logMessage({
+      logger,
+      label: 'WebSocket → Stdio',
+      message,
+      direction: 'server-to-client',
+    })
+    if (message.id !== undefined && message.method === undefined) {
+      pending.delete(message.id)
+    }
+
+    stdioTransport.send(message).catch((err) => {
+      logger.error('Failed to write to stdout:', err)
+    })
+  })
+
+  ws.on('error', (err) => {
+    logger.error('WebSocket error:', err)
+  })
+
+  ws.on('close', async (code, reason) => {
+    const wasClosing = closed
+    closed = true
+    clearInterval(keepalive)
+    if (wasClosing) return
+
+    logger.error(
+      `WebSocket connection closed: code=${code}${reason.length ? `, reason=${reason}` : ''}`,
+    )
+
+    // Don't leave the stdio client waiting for answers that will never come
+    await Promise.all(
+      [...pending].map((id) => sendError(id, 'WebSocket connection closed')),
+    )
+
+    process.exit(1)
+  })
+
+  stdioTransport.onerror = (err) => {
+    logger.error('Stdio error:', err)
+  }
+
+  stdioTransport.onmessage = (message: JSONRPCMessage) => {
+    logMessage({
+      logger,
+      label: 'Stdio → WebSocket',
+      message,
+      direction: 'client-to-server',
+    })
+
+    const isRequest = 'method' in message && 'id' in message
+
+    if (closed) {
+      if (isRequest) sendError(message.id, 'WebSocket connection closed')
+      return
+    }
+
+    if (isRequest) pending.add(message.id)
+
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message))
+    } else {
+      queue.push(message)
+    }
+  }
+
+  await stdioTransport.start()
+
+  logger.info('Stdio server listening')
+}
@@ -2,7 +2,7 @@
 /**
  * index.ts
  *
- * Run MCP stdio servers over SSE, HTTP Stream, or WS, convert between stdio, SSE.
+ * Run MCP stdio servers over SSE, HTTP Stream, or WS, convert between stdio, SSE, Streamable HTTP, WS.
  *
  * Usage:
  *   # stdio→SSE
@@ -12,119 +12,345 @@
  *   # SSE→stdio
  *   npx -y supergateway --sse "https://mcp-server-ab71a6b2-cd55-49d0-adba-562bc85956e3.supermachine.app"
  *
+ *   # SSE→HTTP Stream (also --outputTransport ws or sse)
+ *   npx -y supergateway --sse "https://example.com/sse" --outputTransport http-stream
+ *
+ *   # Streamable HTTP→stdio
+ *   npx -y supergateway --streamableHttp "https://example.com/mcp"
+ *
+ *   # WS→stdio
+ *   npx -y supergateway --ws "wss://example.com/message"
+ *
  *   # stdio→WS
  *   npx -y supergateway --stdio "npx -y @modelcontextprotocol/server-filesystem /" --outputTransport ws
  *
  *   # stdio→HTTP Stream
  *   npx -y supergateway --stdio "npx -y @modelcontextprotocol/server-filesystem /" --outputTransport http-stream
+ *
+ *   # stdio→SSE, HTTP Stream and WS on one port
+ *   npx -y supergateway --stdio "npx -y @modelcontextprotocol/server-filesystem /" --outputTransport sse,http-stream,ws
+ *
+ *   # Several stdio servers under /github and /fs on one port
+ *   npx -y supergateway --server github="npx -y @modelcontextprotocol/server-github" --server fs="npx -y @modelcontextprotocol/server-filesystem /"
+ *
+ *   # Options from a JSON or YAML file, overridden by SUPERGATEWAY_* env vars and the command line
+ *   npx -y supergateway --config gateway.yaml
+ *
+ *   # Record the traffic, then replay the client side against a fresh server
+ *   npx -y supergateway --stdio "node server.js" --record traffic.jsonl
+ *   npx -y supergateway replay traffic.jsonl --stdio "node server.js"
  */
 
 import yargs from 'yargs'
 import { hideBin } from 'yargs/helpers'
-import { Logger } from './types.js'
 import { stdioToSse } from './gateways/stdioToSse.js'
 import { sseToStdio } from './gateways/sseToStdio.js'
+import { sseToSse } from './gateways/sseToSse.js'
+import { sseToWs } from './gateways/sseToWs.js'
+import { sseToHttpStream } from './gateways/sseToHttpStream.js'
+import { streamableHttpToStdio } from './gateways/streamableHttpToStdio.js'
+import { wsToStdio } from './gateways/wsToStdio.js'
 import { stdioToWs } from './gateways/stdioToWs.js'
 import { stdioToHttpStream } from './gateways/stdioToHttpStream.js'
+import {
+  stdioToMultiple,
+  type MultipleOutputTransport,
+} from './gateways/stdioToMultiple.js'
+import { stdioServersToMultiple } from './gateways/stdioServersToMultiple.js'
+import { aggregateToHttpStream } from './gateways/aggregateToHttpStream.js'
 import { headers } from './lib/headers.js'
 import { corsOrigin } from './lib/corsOrigin.js'
+import { loadConfig } from './lib/config.js'
+import { parseServers } from './lib/servers.js'
+import { filterRules } from './lib/filterRules.js'
+import type { PoolStrategy } from './lib/childPool.js'
+import { createLogger, LOG_FORMATS, LOG_LEVELS } from './lib/logger.js'
+import { createRecorder } from './lib/recorder.js'
+import { replay } from './lib/replay.js'
+import { loadApiKeysFile, parseApiKeys } from './lib/apiKeys.js'
+import { createAuth } from './lib/auth.js'
+import {
+  createEventStore,
+  DEFAULT_MAX_BYTES,
+  DEFAULT_MAX_EVENTS,
+} from './lib/eventStore.js'
 
-const log = (...args: any[]) => console.log('[supergateway]', ...args)
 const logStderr = (...args: any[]) => console.error('[supergateway]', ...args)
 
-const noneLogger: Logger = {
-  info: () => {},
-  error: () => {},
-}
+async function replayCommand(args: string[]) {
+  const argv = yargs(args)
+    .usage(
+      'Usage: supergateway replay <file> --stdio "<command>"\n\nReplays the client side of a --record file against a fresh MCP server, one per recorded session, and reports the responses that differ from the recording',
+    )
+    .option('stdio', {
+      type: 'string',
+      demandOption: true,
+      description: 'Command to run the MCP server to replay against',
+    })
+    .option('timeout', {
+      type: 'number',
+      default: 10000,
+      description: 'Time to wait for each response in ms',
+    })
+    .option('logLevel', {
+      choices: LOG_LEVELS,
+      default: 'warn' as const,
+      description:
+        'Lowest level that is logged, the MCP server stderr is logged at error',
+    })
+    .demandCommand(
+      1,
+      1,
+      'Missing the recording file',
+      'Replay one recording at a time',
+    )
+    .help()
+    .parseSync()
 
-const getLogger = ({
-  logLevel,
-  outputTransport,
-}: {
-  logLevel: string
-  outputTransport: string
-}): Logger => {
-  if (logLevel === 'none') {
-    return noneLogger
-  }
+  const logger = createLogger({
+    level: argv.logLevel,
+    format: 'text',
+    stderrOnly: true,
+  })
 
-  if (outputTransport === 'stdio') {
-    return { info: logStderr, error: logStderr }
+  try {
+    const result = await replay({
+      file: `${argv._[0]}`,
+      stdioCmd: argv.stdio,
+      logger,
+      timeout: argv.timeout,
+      report: (line) => console.log(line),
+    })
+    process.exit(result.differed || result.missing ? 1 : 0)
+  } catch (err) {
+    logStderr(`Error: ${(err as Error).message}`)
+    process.exit(1)
   }
-
-  return { info: log, error: logStderr }
 }
 
 async function main() {
+  const [command, ...commandArgs] = hideBin(process.argv)
+  if (command === 'replay') {
+    await replayCommand(commandArgs)
+    return
+  }
+
   const argv = yargs(hideBin(process.argv))
+    .command(
+      'replay <file>',
+      'Replay the client side of a --record file against a fresh MCP server, see "supergateway replay --help"',
+    )
     .option('stdio', {
       type: 'string',
       description: 'Command to run an MCP server over Stdio',
     })
+    .option('server', {
+      type: 'array',
+      default: [],
+      coerce: parseServers,
+      description:
+        'Named stdio MCP server served under /<name>, e.g. --server github="npx -y @modelcontextprotocol/server-github" (can be used multiple times, instead of --stdio)',
+    })
+    .option('aggregate', {
+      type: 'boolean',
+      default: false,
+      description:
+        '(--server) Merge the tools, resources and prompts of every --server into one MCP server at --endpoint, with names prefixed by the server name. Requires --outputTransport http-stream',
+    })
     .option('sse', {
       type: 'string',
       description: 'SSE URL to connect to',
     })
+    .option('streamableHttp', {
+      type: 'string',
+      description: 'Streamable HTTP URL to connect to',
+    })
+    .option('ws', {
+      type: 'string',
+      description: 'WebSocket URL to connect to',
+    })
     .option('outputTransport', {
       type: 'string',
       choices: ['stdio', 'sse', 'ws', 'http-stream'],
-      default: () => {
-        const args = hideBin(process.argv)
-
-        if (args.includes('--stdio')) return 'sse'
-        if (args.includes('--sse')) return 'stdio'
-
-        return undefined
-      },
+      coerce: (value?: string) => value?.split(','),
       description:
-        'Transport for output. Default is "sse" when using --stdio and "stdio" when using --sse.',
+        'Transport for output. Default is "sse" when using --stdio and "stdio" when using --sse, --streamableHttp or --ws. With --stdio, a comma-separated list of sse, ws and http-stream serves them all on one port.',
     })
     .option('port', {
       type: 'number',
       default: 8000,
       description:
-        '(stdio→SSE, stdio→WS, stdio→HTTP) Port for output MCP server',
+        '(stdio→SSE, stdio→WS, stdio→HTTP, sse→SSE, sse→WS, sse→HTTP) Port for output MCP server',
     })
     .option('baseUrl', {
       type: 'string',
       default: '',
-      description: '(stdio→SSE) Base URL for output MCP server',
+      description: '(stdio→SSE, sse→SSE) Base URL for output MCP server',
     })
     .option('ssePath', {
       type: 'string',
       default: '/sse',
-      description: '(stdio→SSE) Path for SSE subscriptions',
+      description: '(stdio→SSE, sse→SSE) Path for SSE subscriptions',
     })
     .option('messagePath', {
       type: 'string',
       default: '/message',
-      description: '(stdio→SSE, stdio→WS) Path for messages',
+      description: '(stdio→SSE, stdio→WS, sse→SSE, sse→WS) Path for messages',
     })
     .option('endpoint', {
       type: 'string',
       default: '/mcp',
-      description: '(stdio→HTTP) HTTP Stream endpoint path',
+      description: '(stdio→HTTP, sse→HTTP) HTTP Stream endpoint path',
     })
     .option('responseMode', {
       type: 'string',
-      choices: ['batch', 'stream'],
-      default: 'batch',
-      description: '(stdio→HTTP) HTTP Stream response mode (batch or stream)',
+      choices: ['auto', 'batch', 'stream'],
+      default: 'auto',
+      description:
+        '(stdio→HTTP, sse→HTTP) HTTP Stream response mode: auto picks JSON or SSE per request from the Accept header and progress tokens, batch and stream force one',
     })
     .option('batchTimeout', {
       type: 'number',
       default: 30000,
-      description: '(stdio→HTTP) Timeout for batch responses in ms',
+      description: '(stdio→HTTP, sse→HTTP) Timeout for batch responses in ms',
     })
     .option('sessionHeaderName', {
       type: 'string',
       default: 'Mcp-Session-Id',
-      description: '(stdio→HTTP) Session header name',
+      description: '(stdio→HTTP, sse→HTTP) Session header name',
+    })
+    .option('sessionIdleTimeout', {
+      type: 'number',
+      default: 1800000,
+      description:
+        '(stdio→HTTP, sse→HTTP) End HTTP Stream sessions without requests or open streams for this many ms, their clients get 404 and initialize again (0 disables)',
+    })
+    .option('maxSessions', {
+      type: 'number',
+      default: 0,
+      description:
+        '(stdio→HTTP, sse→HTTP) Most open HTTP Stream sessions, new sessions get 503 with Retry-After beyond it (0 for no limit)',
+    })
+    .option('eventStoreMaxEvents', {
+      type: 'number',
+      default: DEFAULT_MAX_EVENTS,
+      description:
+        '(stdio→HTTP, sse→HTTP) Most SSE events kept for clients resuming a stream with Last-Event-ID, across all streams',
+    })
+    .option('eventStoreMaxBytes', {
+      type: 'number',
+      default: DEFAULT_MAX_BYTES,
+      description:
+        '(stdio→HTTP, sse→HTTP) Most bytes of SSE events kept for resuming streams',
+    })
+    .option('eventStoreFile', {
+      type: 'string',
+      description:
+        '(stdio→HTTP, sse→HTTP) JSON Lines file keeping the SSE events, so streams can be resumed after a restart',
+    })
+    .option('sessionIsolation', {
+      type: 'string',
+      choices: ['shared', 'process'],
+      default: 'shared',
+      description:
+        '(stdio→HTTP) "shared" runs one child for all sessions, "process" runs a dedicated child per session',
+    })
+    .option('maxChildren', {
+      type: 'number',
+      default: 10,
+      description:
+        '(stdio→HTTP, sse→HTTP) Maximum number of concurrent child processes with --sessionIsolation process, or of upstream SSE connections',
+    })
+    .option('childIdleTimeout', {
+      type: 'number',
+      default: 300000,
+      description:
+        '(stdio→HTTP, sse→HTTP) Stop a session child or upstream SSE connection after this many ms without requests (0 disables)',
+    })
+    .option('maxRestarts', {
+      type: 'number',
+      default: 5,
+      description:
+        '(stdio→SSE, stdio→WS, stdio→HTTP) Restart a crashed child at most this many times within --restartWindow before giving up on it (0 gives up on the first crash). The gateway exits once no child is left',
+    })
+    .option('restartWindow', {
+      type: 'number',
+      default: 60000,
+      description:
+        '(stdio→SSE, stdio→WS, stdio→HTTP) Window in ms for counting child restarts',
+    })
+    .option('poolSize', {
+      type: 'number',
+      default: 1,
+      description:
+        '(stdio→HTTP) Number of identical children serving the sessions with --sessionIsolation shared',
+    })
+    .option('poolStrategy', {
+      type: 'string',
+      choices: ['least-in-flight', 'round-robin'],
+      default: 'least-in-flight',
+      description:
+        '(stdio→HTTP) How requests are spread across the pool with --sessionIsolation shared',
+    })
+    .option('stickySessions', {
+      type: 'boolean',
+      default: false,
+      description:
+        '(stdio→HTTP) Send every message of a session to the same pool child with --sessionIsolation shared',
+    })
+    .option('poolHealthCheckInterval', {
+      type: 'number',
+      default: 30000,
+      description:
+        '(stdio→HTTP) Ping each pool child this often in ms and restart children that miss a ping, with --sessionIsolation shared (0 disables)',
+    })
+    .option('allowTool', {
+      type: 'array',
+      default: [],
+      description:
+        '(stdio input) Glob pattern of tools, matched against the tool name. Only matching tools are visible when given (can be used multiple times)',
+    })
+    .option('denyTool', {
+      type: 'array',
+      default: [],
+      description:
+        '(stdio input) Glob pattern of tools to hide, wins over --allowTool (can be used multiple times)',
+    })
+    .option('allowResource', {
+      type: 'array',
+      default: [],
+      description:
+        '(stdio input) Glob pattern of resources, matched against the resource URI or URI template. Only matching resources are visible when given (can be used multiple times)',
+    })
+    .option('denyResource', {
+      type: 'array',
+      default: [],
+      description:
+        '(stdio input) Glob pattern of resources to hide, wins over --allowResource (can be used multiple times)',
+    })
+    .option('allowPrompt', {
+      type: 'array',
+      default: [],
+      description:
+        '(stdio input) Glob pattern of prompts, matched against the prompt name. Only matching prompts are visible when given (can be used multiple times)',
+    })
+    .option('denyPrompt', {
+      type: 'array',
+      default: [],
+      description:
+        '(stdio input) Glob pattern of prompts to hide, wins over --allowPrompt (can be used multiple times)',
     })
     .option('logLevel', {
-      choices: ['info', 'none'] as const,
-      default: 'info',
-      description: 'Logging level',
+      choices: LOG_LEVELS,
+      default: 'info' as const,
+      description:
+        'Lowest level that is logged, MCP message payloads are logged at debug',
+    })
+    .option('logFormat', {
+      choices: LOG_FORMATS,
+      default: 'text' as const,
+      description:
+        'Log lines as text, or as JSON objects with fields like sessionId, requestId and method',
     })
     .option('cors', {
       type: 'array',
@@ -137,6 +363,43 @@ async function main() {
       description:
         'One or more endpoints returning "ok", e.g. --healthEndpoint /healthz --healthEndpoint /readyz',
     })
+    .option('record', {
+      type: 'string',
+      description:
+        'JSON Lines file to write every message crossing the gateway to, for "supergateway replay". Supported for stdio→SSE, stdio→WS, stdio→HTTP Stream and SSE→stdio, not with several output transports or --server',
+    })
+    .option('apiKey', {
+      type: 'array',
+      default: [],
+      coerce: parseApiKeys,
+      description:
+        'API key clients must send as "Authorization: Bearer <key>" or "x-api-key: <key>", optionally followed by the tools it may call, e.g. --apiKey secret or --apiKey "secret:read_*,search" (can be used multiple times). Supported for stdio→SSE, stdio→WS and stdio→HTTP Stream, not with several output transports or --server',
+    })
+    .option('apiKeysFile', {
+      type: 'string',
+      coerce: loadApiKeysFile,
+      description:
+        'JSON or YAML file listing API keys like --apiKey, e.g. [{ key: secret, tools: ["read_*"] }]',
+    })
+    .option('jwtJwks', {
+      type: 'string',
+      description:
+        'JWKS file or URL with the keys that sign bearer JWTs, discovered from --jwtIssuer when omitted. Supported for stdio→SSE, stdio→WS and stdio→HTTP Stream, not with several output transports or --server',
+    })
+    .option('jwtIssuer', {
+      type: 'string',
+      description:
+        'Required "iss" claim of bearer JWTs, also announced as the authorization server in the OAuth protected resource metadata',
+    })
+    .option('jwtAudience', {
+      type: 'string',
+      description: 'Required "aud" claim of bearer JWTs',
+    })
+    .option('metricsEndpoint', {
+      type: 'string',
+      description:
+        'Endpoint serving Prometheus metrics, e.g. /metrics. Not available with stdio output',
+    })
     .option('header', {
       type: 'array',
       default: [],
@@ -148,34 +411,231 @@ async function main() {
       description:
         'Authorization header to be added, e.g. --oauth2Bearer "some-access-token" adds "Authorization: Bearer some-access-token"',
     })
+    .config(
+      'config',
+      'JSON or YAML file with any of these options, keyed by option name. Command line options override SUPERGATEWAY_* environment variables, which override the file',
+      loadConfig,
+    )
+    .env('SUPERGATEWAY')
     .help()
     .parseSync()
 
   const hasStdio = Boolean(argv.stdio)
+  const hasServers = argv.server.length > 0
   const hasSse = Boolean(argv.sse)
+  const hasStreamableHttp = Boolean(argv.streamableHttp)
+  const hasWs = Boolean(argv.ws)
+
+  const inputCount = [
+    hasStdio,
+    hasServers,
+    hasSse,
+    hasStreamableHttp,
+    hasWs,
+  ].filter(Boolean).length
 
-  if (hasStdio && hasSse) {
-    logStderr('Error: Specify only one of --stdio or --sse, not all')
+  if (inputCount > 1) {
+    logStderr(
+      'Error: Specify only one of --stdio, --server, --sse, --streamableHttp or --ws, not all',
+    )
     process.exit(1)
-  } else if (!hasStdio && !hasSse) {
-    logStderr('Error: You must specify one of --stdio or --sse')
+  } else if (inputCount === 0) {
+    logStderr(
+      'Error: You must specify one of --stdio, --server, --sse, --streamableHttp or --ws',
+    )
     process.exit(1)
   }
 
-  const logger = getLogger({
-    logLevel: argv.logLevel,
-    outputTransport: argv.outputTransport as string,
+  // The input may come from the command line, the environment or the config
+  // file, so the default output is picked once everything is parsed
+  const outputTransports = argv.outputTransport ?? [
+    hasStdio || hasServers ? 'sse' : 'stdio',
+  ]
+  const outputTransport = outputTransports.join(',')
+
+  const logger = createLogger({
+    level: argv.logLevel,
+    format: argv.logFormat,
+    stderrOnly: outputTransport === 'stdio',
   })
 
   logger.info('Starting...')
   logger.info(
     'Supergateway is supported by Supermachine (hosted MCPs) - https://supermachine.ai',
   )
-  logger.info(`  - outputTransport: ${argv.outputTransport}`)
+  logger.info(`  - outputTransport: ${outputTransport}`)
+
+  const recordable =
+    (hasStdio && ['sse', 'ws', 'http-stream'].includes(outputTransport)) ||
+    (hasSse && outputTransport === 'stdio')
+  if (argv.record && !recordable) {
+    logStderr(
+      `Error: --record is not supported for ${hasStdio ? 'stdio' : hasSse ? 'sse' : 'this input'}→${outputTransport}`,
+    )
+    process.exit(1)
+  }
+  if (argv.record) {
+    logger.info(`  - record: ${argv.record}`)
+  }
+  const recorder = argv.record
+    ? createRecorder({ path: argv.record })
+    : undefined
+
+  const apiKeys = [...argv.apiKey, ...(argv.apiKeysFile ?? [])]
+  const hasJwt = Boolean(argv.jwtJwks || argv.jwtIssuer)
+  if (argv.jwtAudience && !hasJwt) {
+    logStderr('Error: --jwtAudience requires --jwtJwks or --jwtIssuer')
+    process.exit(1)
+  }
+  const authOption = [
+    argv.apiKey.length && '--apiKey',
+    argv.apiKeysFile && '--apiKeysFile',
+    argv.jwtJwks && '--jwtJwks',
+    argv.jwtIssuer && '--jwtIssuer',
+  ].find(Boolean)
+  if (
+    authOption &&
+    !(hasStdio && ['sse', 'ws', 'http-stream'].includes(outputTransport))
+  ) {
+    logStderr(
+      `Error: ${authOption} is not supported for ${hasStdio ? 'stdio' : 'this input'}→${outputTransport}`,
+    )
+    process.exit(1)
+  }
+  const auth =
+    apiKeys.length || hasJwt
+      ? createAuth({
+          apiKeys,
+          jwt: hasJwt
+            ? {
+                jwks: argv.jwtJwks,
+                issuer: argv.jwtIssuer,
+                audience: argv.jwtAudience,
+              }
+            : undefined,
+          logger,
+        })
+      : undefined
+  if (auth) {
+    logger.info(`  - auth: ${auth.description}`)
+  }
+
+  // Session isolation and the pool only exist for stdio→HTTP Stream, other
+  // modes refuse them rather than ignore them
+  const poolOption = [
+    argv.sessionIsolation !== 'shared' && '--sessionIsolation',
+    argv.poolSize !== 1 && '--poolSize',
+    argv.poolStrategy !== 'least-in-flight' && '--poolStrategy',
+    argv.stickySessions && '--stickySessions',
+    argv.poolHealthCheckInterval !== 30000 && '--poolHealthCheckInterval',
+  ].find(Boolean)
+  if (poolOption && !(hasStdio && outputTransport === 'http-stream')) {
+    logStderr(
+      `Error: ${poolOption} is only supported for stdio→http-stream, not ${hasStdio ? 'stdio' : hasServers ? '--server' : 'this input'}→${outputTransport}`,
+    )
+    process.exit(1)
+  }
+
+  // One store serves every HTTP Stream endpoint, stream IDs are unique
+  const eventStore = outputTransports.includes('http-stream')
+    ? createEventStore({
+        maxEvents: argv.eventStoreMaxEvents,
+        maxBytes: argv.eventStoreMaxBytes,
+        path: argv.eventStoreFile,
+        logger,
+      })
+    : undefined
 
   try {
-    if (hasStdio) {
-      if (argv.outputTransport === 'sse') {
+    if (hasServers && argv.aggregate) {
+      if (outputTransport !== 'http-stream') {
+        logStderr('Error: --aggregate requires --outputTransport http-stream')
+        process.exit(1)
+      }
+
+      await aggregateToHttpStream({
+        servers: argv.server,
+        port: argv.port,
+        endpoint: argv.endpoint,
+        logger,
+        corsOrigin: corsOrigin({ argv }),
+        healthEndpoints: argv.healthEndpoint as string[],
+        metricsEndpoint: argv.metricsEndpoint,
+        headers: headers({
+          argv,
+          logger,
+        }),
+        responseMode: argv.responseMode as 'auto' | 'batch' | 'stream',
+        batchTimeout: argv.batchTimeout,
+        sessionHeaderName: argv.sessionHeaderName,
+        eventStore,
+        sessionIdleTimeout: argv.sessionIdleTimeout,
+        maxSessions: argv.maxSessions,
+        maxRestarts: argv.maxRestarts,
+        restartWindow: argv.restartWindow,
+        filter: filterRules({ argv }),
+      })
+    } else if (hasServers) {
+      if (outputTransports.includes('stdio')) {
+        logStderr('Error: --server does not support --outputTransport stdio')
+        process.exit(1)
+      }
+
+      await stdioServersToMultiple({
+        servers: argv.server,
+        outputTransports: outputTransports as MultipleOutputTransport[],
+        port: argv.port,
+        baseUrl: argv.baseUrl,
+        ssePath: argv.ssePath,
+        messagePath: argv.messagePath,
+        endpoint: argv.endpoint,
+        logger,
+        corsOrigin: corsOrigin({ argv }),
+        healthEndpoints: argv.healthEndpoint as string[],
+        metricsEndpoint: argv.metricsEndpoint,
+        headers: headers({
+          argv,
+          logger,
+        }),
+        responseMode: argv.responseMode as 'auto' | 'batch' | 'stream',
+        batchTimeout: argv.batchTimeout,
+        sessionHeaderName: argv.sessionHeaderName,
+        eventStore,
+        sessionIdleTimeout: argv.sessionIdleTimeout,
+        maxSessions: argv.maxSessions,
+        maxRestarts: argv.maxRestarts,
+        restartWindow: argv.restartWindow,
+        filter: filterRules({ argv }),
+      })
+    } else if (hasStdio) {
+      if (outputTransports.length > 1 && !outputTransports.includes('stdio')) {
+        await stdioToMultiple({
+          stdioCmd: argv.stdio!,
+          outputTransports: outputTransports as MultipleOutputTransport[],
+          port: argv.port,
+          baseUrl: argv.baseUrl,
+          ssePath: argv.ssePath,
+          messagePath: argv.messagePath,
+          endpoint: argv.endpoint,
+          logger,
+          corsOrigin: corsOrigin({ argv }),
+          healthEndpoints: argv.healthEndpoint as string[],
+          metricsEndpoint: argv.metricsEndpoint,
+          headers: headers({
+            argv,
+            logger,
+          }),
+          responseMode: argv.responseMode as 'auto' | 'batch' | 'stream',
+          batchTimeout: argv.batchTimeout,
+          sessionHeaderName: argv.sessionHeaderName,
+          eventStore,
+          sessionIdleTimeout: argv.sessionIdleTimeout,
+          maxSessions: argv.maxSessions,
+          maxRestarts: argv.maxRestarts,
+          restartWindow: argv.restartWindow,
+          filter: filterRules({ argv }),
+        })
+      } else if (outputTransport === 'sse') {
         await stdioToSse({
           stdioCmd: argv.stdio!,
           port: argv.port,
@@ -185,12 +645,18 @@ async function main() {
           logger,
           corsOrigin: corsOrigin({ argv }),
           healthEndpoints: argv.healthEndpoint as string[],
+          metricsEndpoint: argv.metricsEndpoint,
           headers: headers({
             argv,
             logger,
           }),
+          maxRestarts: argv.maxRestarts,
+          restartWindow: argv.restartWindow,
+          filter: filterRules({ argv }),
+          recorder,
+          auth,
         })
-      } else if (argv.outputTransport === 'ws') {
+      } else if (outputTransport === 'ws') {
         await stdioToWs({
           stdioCmd: argv.stdio!,
           port: argv.port,
@@ -198,8 +664,14 @@ async function main() {
           logger,
           corsOrigin: corsOrigin({ argv }),
           healthEndpoints: argv.healthEndpoint as string[],
+          metricsEndpoint: argv.metricsEndpoint,
+          maxRestarts: argv.maxRestarts,
+          restartWindow: argv.restartWindow,
+          filter: filterRules({ argv }),
+          recorder,
+          auth,
         })
-      } else if (argv.outputTransport === 'http-stream') {
+      } else if (outputTransport === 'http-stream') {
         await stdioToHttpStream({
           stdioCmd: argv.stdio!,
           port: argv.port,
@@ -207,20 +679,36 @@ async function main() {
           logger,
           corsOrigin: corsOrigin({ argv }),
           healthEndpoints: argv.healthEndpoint as string[],
+          metricsEndpoint: argv.metricsEndpoint,
           headers: headers({
             argv,
             logger,
           }),
-          responseMode: argv.responseMode as 'batch' | 'stream',
+          responseMode: argv.responseMode as 'auto' | 'batch' | 'stream',
           batchTimeout: argv.batchTimeout,
           sessionHeaderName: argv.sessionHeaderName,
+          eventStore,
+          sessionIdleTimeout: argv.sessionIdleTimeout,
+          maxSessions: argv.maxSessions,
+          sessionIsolation: argv.sessionIsolation as 'shared' | 'process',
+          maxChildren: argv.maxChildren,
+          childIdleTimeout: argv.childIdleTimeout,
+          maxRestarts: argv.maxRestarts,
+          restartWindow: argv.restartWindow,
+          filter: filterRules({ argv }),
+          poolSize: argv.poolSize,
+          poolStrategy: argv.poolStrategy as PoolStrategy,
+          stickySessions: argv.stickySessions,
+          poolHealthCheckInterval: argv.poolHealthCheckInterval,
+          recorder,
+          auth,
         })
       } else {
-        logStderr(`Error: stdio→${argv.outputTransport} not supported`)
+        logStderr(`Error: stdio→${outputTransport} not supported`)
         process.exit(1)
       }
     } else if (hasSse) {
-      if (argv.outputTransport === 'stdio') {
+      if (outputTransport === 'stdio') {
         await sseToStdio({
           sseUrl: argv.sse!,
           logger,
@@ -228,9 +716,90 @@ async function main() {
             argv,
             logger,
           }),
+          recorder,
+        })
+      } else if (outputTransport === 'sse') {
+        await sseToSse({
+          sseUrl: argv.sse!,
+          port: argv.port,
+          baseUrl: argv.baseUrl,
+          ssePath: argv.ssePath,
+          messagePath: argv.messagePath,
+          logger,
+          corsOrigin: corsOrigin({ argv }),
+          healthEndpoints: argv.healthEndpoint as string[],
+          metricsEndpoint: argv.metricsEndpoint,
+          headers: headers({
+            argv,
+            logger,
+          }),
+        })
+      } else if (outputTransport === 'ws') {
+        await sseToWs({
+          sseUrl: argv.sse!,
+          port: argv.port,
+          messagePath: argv.messagePath,
+          logger,
+          corsOrigin: corsOrigin({ argv }),
+          healthEndpoints: argv.healthEndpoint as string[],
+          metricsEndpoint: argv.metricsEndpoint,
+          headers: headers({
+            argv,
+            logger,
+          }),
+        })
+      } else if (outputTransport === 'http-stream') {
+        await sseToHttpStream({
+          sseUrl: argv.sse!,
+          port: argv.port,
+          endpoint: argv.endpoint,
+          logger,
+          corsOrigin: corsOrigin({ argv }),
+          healthEndpoints: argv.healthEndpoint as string[],
+          metricsEndpoint: argv.metricsEndpoint,
+          headers: headers({
+            argv,
+            logger,
+          }),
+          responseMode: argv.responseMode as 'auto' | 'batch' | 'stream',
+          batchTimeout: argv.batchTimeout,
+          sessionHeaderName: argv.sessionHeaderName,
+          eventStore,
+          sessionIdleTimeout: argv.sessionIdleTimeout,
+          maxSessions: argv.maxSessions,
+          maxConnections: argv.maxChildren,
+          connectionIdleTimeout: argv.childIdleTimeout,
+        })
+      } else {
+        logStderr(`Error: sse→${outputTransport} not supported`)
+        process.exit(1)
+      }
+    } else if (hasStreamableHttp) {
+      if (outputTransport === 'stdio') {
+        await streamableHttpToStdio({
+          streamableHttpUrl: argv.streamableHttp!,
+          logger,
+          headers: headers({
+            argv,
+            logger,
+          }),
+        })
+      } else {
+        logStderr(`Error: streamableHttp→${outputTransport} not supported`)
+        process.exit(1)
+      }
+    } else if (hasWs) {
+      if (outputTransport === 'stdio') {
+        await wsToStdio({
+          wsUrl: argv.ws!,
+          logger,
+          headers: headers({
+            argv,
+            logger,
+          }),
         })
       } else {
-        logStderr(`Error: sse→${argv.outputTransport} not supported`)
+        logStderr(`Error: ws→${outputTransport} not supported`)
         process.exit(1)
       }
     } else {
@@ -0,0 +1,649 @@
+import type {
+  ClientCapabilities,
+  InitializeResult,
+  JSONRPCMessage,
+  JSONRPCRequest,
+  Request,
+  RequestId,
+  ServerCapabilities,
+} from '@modelcontextprotocol/sdk/types.js'
+import { Logger, Upstream } from '../types.js'
+import { getVersion } from './getVersion.js'
+import { createInitializeCache, InitializeCache } from './initializeCache.js'
+import { createRequestIdMultiplexer } from './requestIdMultiplexer.js'
+import type { FilterRules } from './messageFilter.js'
+import { serverLogger, type NamedServer } from './servers.js'
+import {
+  CHILD_EXITED_ERROR,
+  superviseChild,
+  SupervisedChild,
+} from './superviseChild.js'
+
+export interface AggregateUpstreamOptions {
+  servers: NamedServer[]
+  logger: Logger
+  maxRestarts: number
+  restartWindow: number
+  filter?: FilterRules
+  capabilities?: ClientCapabilities
+  onMessage: (message: JSONRPCMessage) => void
+  onGiveUp: () => void
+}
+
+interface AggregateMember {
+  name: string
+  child: SupervisedChild
+  initializeCache: InitializeCache
+}
+
+// A child's answer to a request the aggregate sent it
+interface MemberResponse {
+  result?: any
+  error?: { code: number; message: string; data?: unknown }
+}
+
+interface RequestContext {
+  sessionId?: string
+  // ID of the client request being worked on
+  upstreamId?: RequestId
+}
+
+const requestKey = (sessionId: string | undefined, id: RequestId) =>
+  `${sessionId ?? ''}:${id}`
+
+// Separates the server name from a tool or prompt name, e.g. github__create_issue
+export const NAME_SEPARATOR = '__'
+
+// Methods whose results are merged, with the capability a child needs to be
+// asked and the key of the list in the result
+const LIST_METHODS = new Map<
+  string,
+  { capability: keyof ServerCapabilities; key: string }
+>([
+  ['tools/list', { capability: 'tools', key: 'tools' }],
+  ['prompts/list', { capability: 'prompts', key: 'prompts' }],
+  ['resources/list', { capability: 'resources', key: 'resources' }],
+  [
+    'resources/templates/list',
+    { capability: 'resources', key: 'resourceTemplates' },
+  ],
+])
+
+// A merged cursor holds the cursor of every child that has more items
+const encodeCursor = (cursors: Record<string, string>) =>
+  Buffer.from(JSON.stringify(cursors)).toString('base64url')
+
+const decodeCursor = (cursor: unknown) => {
+  if (typeof cursor !== 'string') return undefined
+
+  try {
+    const cursors = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    if (
+      cursors &&
+      typeof cursors === 'object' &&
+      !Array.isArray(cursors) &&
+      Object.values(cursors).every((value) => typeof value === 'string')
+    ) {
+      return cursors as Record<string, string>
+    }
+  } catch (err) {
+    return undefined
+  }
+
+  return undefined
+}
+
+// Matches the URIs a URI template expands to, e.g. file:///{path}
+const templatePattern = (uriTemplate: string) =>
+  new RegExp(
+    `^${uriTemplate
+      .split(/(\{[^}]*\})/)
+      .map((part) =>
+        !part.startsWith('{')
+          ? part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+          : /^\{[+#?&]/.test(part)
+            ? '.*'
+            : '[^/]*',
+      )
+      .join('')}$`,
+  )
+
+/**
+ * Runs one supervised child per server and presents them to clients as a
+ * single MCP server. Tool and prompt names are prefixed with the server name,
+ * list results are merged across children with a combined cursor, and calls
+ * are dispatched to the child that owns the tool, prompt or resource. A child
+ * that exits too often is left out from then on.
+ *
+ * @param options Configuration options
+ * @param options.servers Named servers to aggregate
+ * @param options.logger Logger instance
+ * @param options.maxRestarts Restarts allowed per child within the window
+ * @param options.restartWindow Window for counting restarts in ms
+ * @param options.filter Tools, resources and prompts hidden from clients
+ * @param options.capabilities Client capabilities announced to the children
+ * @param options.onMessage Called with every message for the clients
+ * @param options.onGiveUp Called when every child was given up on
+ */
+export function createAggregateUpstream(options: AggregateUpstreamOptions) {
+  const {
+    servers,
+    logger,
+    maxRestarts,
+    restartWindow,
+    capabilities,
+    onMessage,
+    onGiveUp,
+    filter,
+  } = options
+
+  const members: AggregateMember[] = []
+
+  // Requests the aggregate sent to a child, each answer settles its promise
+  const requests = createRequestIdMultiplexer<
+    RequestContext & {
+      member: AggregateMember
+      resolve: (response: MemberResponse) => void
+    }
+  >()
+
+  // Requests from children get aggregate-unique IDs, so a client's answer
+  // reaches the child that asked
+  const memberRequests = createRequestIdMultiplexer<AggregateMember>()
+
+  // Client requests that were cancelled while a child worked on them
+  const cancelled = new Set<string>()
+
+  // Owners of resources and resource templates, learned from list results
+  const resourceOwners = new Map<string, AggregateMember>()
+  const templateOwners = new Map<
+    string,
+    { member: AggregateMember; pattern: RegExp }
+  >()
+
+  const handleMemberMessage = (
+    member: AggregateMember,
+    message: JSONRPCMessage,
+  ) => {
+    if (member.initializeCache.handleChildMessage(message)) {
+      return
+    }
+
+    if ('method' in message && 'id' in message) {
+      onMessage(
+        memberRequests.outbound({
+          sessionId: member.name,
+          request: message,
+          context: member,
+        }),
+      )
+      return
+    }
+
+    if (!('method' in message) && message.id !== undefined) {
+      const routed = requests.inbound(message)
+      if (routed) {
+        routed.context.resolve(
+          'error' in message
+            ? { error: message.error }
+            : { result: message.result },
+        )
+      } else {
+        logger.warn(
+          `No pending request found for ID ${message.id} from ${member.name}`,
+        )
+      }
+      return
+    }
+
+    onMessage(message)
+  }
+
+  const startMember = ({ name, stdioCmd }: NamedServer) => {
+    const memberLogger = serverLogger(logger, name)
+    const initializeCache = createInitializeCache({
+      logger: memberLogger,
+      capabilities,
+    })
+
+    const child = superviseChild({
+      stdioCmd,
+      logger: memberLogger,
+      onMessage: (message) => handleMemberMessage(member, message),
+      maxRestarts,
+      restartWindow,
+      filter,
+      // Don't leave clients waiting for answers that will never come
+      onExit: () => {
+        for (const { context } of requests.dropWhere(
+          (entry) => entry.context.member === member,
+        )) {
+          context.resolve({ error: CHILD_EXITED_ERROR })
+        }
+        memberRequests.dropSession(name)
+      },
+      onRestart: (write) => initializeCache.start(write),
+      onGiveUp: () => {
+        logger.error(`${name} is left out of the aggregate`)
+        if (members.every((member) => member.child.gaveUp)) {
+          onGiveUp()
+        }
+      },
+    })
+
+    const member: AggregateMember = { name, child, initializeCache }
+    initializeCache.start(child.write)
+
+    return member
+  }
+
+  for (const server of servers) {
+    members.push(startMember(server))
+  }
+
+  // Longest names first, so "git" doesn't claim the tools of "git__hub"
+  const membersByName = [...members].sort(
+    (a, b) => b.name.length - a.name.length,
+  )
+
+  // Send a request to a child and wait for its answer
+  const requestMember = (
+    member: AggregateMember,
+    method: string,
+    params: Request['params'],
+    context: RequestContext,
+  ) =>
+    new Promise<MemberResponse>((resolve) => {
+      member.child.write(
+        requests.outbound({
+          sessionId: context.sessionId ?? '',
+          request: {
+            jsonrpc: '2.0',
+            id: context.upstreamId ?? 0,
+            method,
+            ...(params !== undefined && { params }),
+          },
+          context: { ...context, member, resolve },
+        }),
+      )
+    })
+
+  // The child's cached initialize result, undefined if it failed to initialize
+  const initializeResult = async (
+    member: AggregateMember,
+    protocolVersion?: unknown,
+  ) => {
+    const response = await member.initializeCache.respond({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: { protocolVersion },
+    })
+    return 'result' in response
+      ? (response.result as InitializeResult)
+      : undefined
+  }
+
+  const membersWith = async (capability: keyof ServerCapabilities) => {
+    const inAggregate = members.filter((member) => !member.child.gaveUp)
+    const results = await Promise.all(
+      inAggregate.map((member) => initializeResult(member)),
+    )
+    return inAggregate.filter((_, i) => results[i]?.capabilities[capability])
+  }
+
+  // Announce what any child can do, in the oldest protocol version they negotiated
+  const initialize = async (
+    params: JSONRPCRequest['params'],
+  ): Promise<MemberResponse> => {
+    const results = await Promise.all(
+      members.map((member) =>
+        initializeResult(member, params?.protocolVersion),
+      ),
+    )
+    const initialized = results.filter(
+      (result): result is InitializeResult => result !== undefined,
+    )
+    if (!initialized.length) {
+      return {
+        error: { code: -32603, message: 'No MCP server could be initialized' },
+      }
+    }
+
+    const has = (capability: keyof ServerCapabilities) =>
+      initialized.some((result) => result.capabilities[capability])
+    const instructions = members.flatMap((member, i) =>
+      results[i]?.instructions
+        ? [`${member.name}: ${results[i].instructions}`]
+        : [],
+    )
+
+    return {
+      result: {
+        protocolVersion: initialized
+          .map((result) => result.protocolVersion)
+          .sort()[0],
+        capabilities: {
+          ...(has('tools') && { tools: { listChanged: true } }),
+          ...(has('prompts') && { prompts: { listChanged: true } }),
+          ...(has('resources') && {
+            resources: {
+              listChanged: true,
+              subscribe: initialized.some(
+                (result) => result.capabilities.resources?.subscribe,
+              ),
+            },
+          }),
+          ...(has('logging') && { logging: {} }),
+          ...(has('completions') && { completions: {} }),
+        },
+        serverInfo: { name: 'supergateway', version: getVersion() },
+        ...(instructions.length && { instructions: instructions.join('\n\n') }),
+      },
+    }
+  }
+
+  const namespaceItem = (
+    method: string,
+    member: AggregateMember,
+    item: any,
+  ) => {
+    if (method === 'resources/list') {
+      resourceOwners.set(item.uri, member)
+    } else if (method === 'resources/templates/list') {
+      templateOwners.set(item.uriTemplate, {
+        member,
+        pattern: templatePattern(item.uriTemplate),
+      })
+    }
+
+    return { ...item, name: `${member.name}${NAME_SEPARATOR}${item.name}` }
+  }
+
+  // Ask every child for a page and merge the pages. The first page asks all
+  // children that have the capability, later pages only the children the
+  // merged cursor has a cursor for
+  const list = async (
+    method: string,
+    { capability, key }: { capability: keyof ServerCapabilities; key: string },
+    params: any,
+    context: RequestContext,
+  ): Promise<MemberResponse> => {
+    let targets: { member: AggregateMember; cursor?: string }[]
+    if (params?.cursor !== undefined) {
+      const cursors = decodeCursor(params.cursor)
+      if (!cursors) {
+        return { error: { code: -32602, message: 'Invalid cursor' } }
+      }
+      targets = members
+        .filter((member) => cursors[member.name] !== undefined)
+        .map((member) => ({ member, cursor: cursors[member.name] }))
+    } else {
+      targets = (await membersWith(capability)).map((member) => ({ member }))
+    }
+
+    const responses = await Promise.all(
+      targets.map(({ member, cursor }) =>
+        requestMember(member, method, { ...params, cursor }, context),
+      ),
+    )
+
+    const items: any[] = []
+    const nextCursors: Record<string, string> = {}
+    const errors: MemberResponse['error'][] = []
+    targets.forEach(({ member }, i) => {
+      const { result, error } = responses[i]
+      if (error) {
+        logger.error(`${member.name} failed ${method}:`, JSON.stringify(error))
+        errors.push(error)
+        return
+      }
+
+      // A child that answers with something else than a list fails the page
+      if (!Array.isArray(result?.[key])) {
+        const message = `${member.name} answered ${method} without a ${key} list`
+        logger.error(message)
+        errors.push({ code: -32603, message })
+        return
+      }
+
+      for (const item of result[key]) {
+        items.push(namespaceItem(method, member, item))
+      }
+      if (result?.nextCursor) {
+        nextCursors[member.name] = result.nextCursor
+      }
+    })
+
+    // Partial results beat none, fail only when every child failed
+    if (errors.length && errors.length === targets.length) {
+      return { error: errors[0] }
+    }
+
+    return {
+      result: {
+        [key]: items,
+        ...(Object.keys(nextCursors).length && {
+          nextCursor: encodeCursor(nextCursors),
+        }),
+      },
+    }
+  }
+
+  // The child a namespaced tool or prompt belongs to, and its name there
+  const resolveName = (name: unknown) => {
+    if (typeof name !== 'string') return undefined
+
+    const member = membersByName.find((member) =>
+      name.startsWith(`${member.name}${NAME_SEPARATOR}`),
+    )
+    return (
+      member && {
+        member,
+        name: name.slice(member.name.length + NAME_SEPARATOR.length),
+      }
+    )
+  }
+
+  // The child a resource or resource template belongs to
+  const resolveUri = async (uri: unknown) => {
+    if (typeof uri !== 'string') return undefined
+
+    const owner =
+      resourceOwners.get(uri) ??
+      templateOwners.get(uri)?.member ??
+      [...templateOwners.values()].find(({ pattern }) => pattern.test(uri))
+        ?.member
+    if (owner) return owner
+
+    // Without a listing to go by, a lone resource server must be the owner
+    const withResources = await membersWith('resources')
+    return withResources.length === 1 ? withResources[0] : undefined
+  }
+
+  const handleRequest = async (
+    request: JSONRPCRequest,
+    sessionId?: string,
+  ): Promise<MemberResponse> => {
+    const { method, params } = request
+    const context = { sessionId, upstreamId: request.id }
+
+    if (method === 'initialize') {
+      return initialize(params)
+    }
+
+    if (method === 'ping') {
+      return { result: {} }
+    }
+
+    const listMethod = LIST_METHODS.get(method)
+    if (listMethod) {
+      return list(method, listMethod, params, context)
+    }
+
+    if (method === 'tools/call' || method === 'prompts/get') {
+      const target = resolveName(params?.name)
+      if (!target) {
+        return {
+          error: {
+            code: -32602,
+            message: `Unknown ${method === 'tools/call' ? 'tool' : 'prompt'}: ${params?.name}`,
+          },
+        }
+      }
+      return requestMember(
+        target.member,
+        method,
+        { ...params, name: target.name },
+        context,
+      )
+    }
+
+    if (
+      method === 'resources/read' ||
+      method === 'resources/subscribe' ||
+      method === 'resources/unsubscribe'
+    ) {
+      const member = await resolveUri(params?.uri)
+      if (!member) {
+        return {
+          error: {
+            code: -32602,
+            message: `Unknown resource: ${params?.uri}`,
+          },
+        }
+      }
+      return requestMember(member, method, params, context)
+    }
+
+    if (method === 'completion/complete') {
+      const ref: Record<string, unknown> =
+        typeof params?.ref === 'object' ? { ...params.ref } : {}
+      if (ref.type === 'ref/prompt') {
+        const target = resolveName(ref.name)
+        if (target) {
+          return requestMember(
+            target.member,
+            method,
+            { ...params, ref: { ...ref, name: target.name } },
+            context,
+          )
+        }
+      } else {
+        const member = await resolveUri(ref.uri)
+        if (member) {
+          return requestMember(member, method, params, context)
+        }
+      }
+      return {
+        error: { code: -32602, message: 'Unknown completion reference' },
+      }
+    }
+
+    if (method === 'logging/setLevel') {
+      const responses = await Promise.all(
+        (await membersWith('logging')).map((member) =>
+          requestMember(member, method, params, context),
+        ),
+      )
+      return responses.find((response) => response.error) ?? { result: {} }
+    }
+
+    return { error: { code: -32601, message: `Method not found: ${method}` } }
+  }
+
+  const send = (
+    message: JSONRPCMessage,
+    { sessionId }: { sessionId?: string } = {},
+  ) => {
+    // Answers to requests a child sent to a client
+    if (!('method' in message)) {
+      const routed = memberRequests.inbound(message)
+      if (routed) {
+        routed.context.child.write(routed.message)
+      } else {
+        logger.warn(`No server is waiting for an answer with ID ${message.id}`)
+      }
+      return
+    }
+
+    if (!('id' in message)) {
+      // Every child already got the gateway's own notifications/initialized
+      if (message.method === 'notifications/initialized') return
+
+      // Cancellations go to the children working on the session's request,
+      // which won't answer anymore. The request is settled right away, but
+      // like any cancelled request it isn't answered
+      if (message.method === 'notifications/cancelled') {
+        const requestId = message.params?.requestId
+        if (typeof requestId !== 'string' && typeof requestId !== 'number') {
+          return
+        }
+        for (const { id, context } of requests.dropWhere(
+          (entry) =>
+            entry.sessionId === (sessionId ?? '') &&
+            entry.context.upstreamId === requestId,
+        )) {
+          context.member.child.write({
+            ...message,
+            params: { ...message.params, requestId: id },
+          })
+          cancelled.add(requestKey(sessionId, requestId))
+          context.resolve({
+            error: { code: -32800, message: 'Request cancelled' },
+          })
+        }
+        return
+      }
+
+      for (const member of members) {
+        member.child.write(message)
+      }
+      return
+    }
+
+    handleRequest(message, sessionId)
+      .catch((err): MemberResponse => {
+        logger.error(`Failed to handle ${message.method}:`, err)
+        return { error: { code: -32603, message: 'Internal error' } }
+      })
+      .then(({ result, error }) => {
+        if (cancelled.delete(requestKey(sessionId, message.id))) return
+
+        onMessage({
+          jsonrpc: '2.0',
+          id: message.id,
+          ...(error ? { error } : { result }),
+        })
+      })
+  }
+
+  const upstream: Upstream = {
+    send,
+    close: () => {
+      for (const member of members) {
+        member.child.kill()
+      }
+    },
+  }
+
+  return {
+    ...upstream,
+    get restarts() {
+      return members.reduce((sum, member) => sum + member.child.restarts, 0)
+    },
+    status: () =>
+      Object.fromEntries(
+        members.map((member) => [
+          member.name,
+          {
+            pid: member.child.child.pid,
+            running: member.child.running,
+            restarts: member.child.restarts,
+          },
+        ]),
+      ),
+  }
+}
+
+export type AggregateUpstream = ReturnType<typeof createAggregateUpstream>
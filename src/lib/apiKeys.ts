@@ -0,0 +1,97 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { readFileSync } from 'fs'
+import { extname } from 'path'
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+
+export interface ApiKey {
+  key: string
+  // Glob patterns of the tools the key may call, empty allows every tool
+  tools: string[]
+}
+
+/**
+ * Parses `--apiKey` values: the key, optionally followed by ":" and a comma
+ * separated list of tool patterns, e.g. `secret:read_*,search`.
+ *
+ * @throws Error when the key is empty
+ */
+export const parseApiKeys = (argvApiKey: (string | number)[]): ApiKey[] =>
+  argvApiKey.map((rawApiKey) => {
+    const value = `${rawApiKey}`
+    const colonIndex = value.indexOf(':')
+    const key = colonIndex === -1 ? value : value.slice(0, colonIndex)
+
+    if (!key.trim()) {
+      throw new Error(
+        `Invalid API key: ${value}, expected key or key:tool,tool`,
+      )
+    }
+
+    return {
+      key,
+      tools:
+        colonIndex === -1
+          ? []
+          : value
+              .slice(colonIndex + 1)
+              .split(',')
+              .map((tool) => tool.trim())
+              .filter(Boolean),
+    }
+  })
+
+const apiKeysFileSchema = z.array(
+  z
+    .object({
+      key: z.string().min(1),
+      tools: z.array(z.string()).default([]),
+    })
+    .strict(),
+)
+
+/**
+ * Reads a JSON or YAML list of `{ key, tools? }` entries. Files ending in
+ * .json are parsed as JSON, everything else as YAML.
+ *
+ * @throws Error naming the offending entry when the file is invalid
+ */
+export const loadApiKeysFile = (path: string): ApiKey[] => {
+  const text = readFileSync(path, 'utf8')
+
+  let raw: unknown
+  try {
+    raw = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text)
+  } catch (err) {
+    throw new Error(`Cannot parse API keys file ${path}: ${String(err)}`)
+  }
+
+  const result = apiKeysFileSchema.safeParse(raw ?? [])
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => {
+      const keys =
+        issue.code === 'unrecognized_keys' ? issue.keys : [issue.path.join('.')]
+      return `  - ${keys.join(', ') || '(root)'}: ${issue.message}`
+    })
+    throw new Error(`Invalid API keys file ${path}:\n${problems.join('\n')}`)
+  }
+
+  return result.data
+}
+
+// Compare digests so the time taken doesn't reveal how much of a key matched
+const digest = (value: string) => createHash('sha256').update(value).digest()
+
+// Finds the configured API key a client presented, if any
+export const createApiKeyMatcher = (apiKeys: ApiKey[]) => {
+  const digests = apiKeys.map((apiKey) => ({
+    apiKey,
+    digest: digest(apiKey.key),
+  }))
+
+  return (key: string) => {
+    const keyDigest = digest(key)
+    return digests.find((entry) => timingSafeEqual(entry.digest, keyDigest))
+      ?.apiKey
+  }
+}
@@ -0,0 +1,225 @@
+import type { IncomingMessage } from 'http'
+import type express from 'express'
+import type { LogFields, Logger } from '../types.js'
+import { createApiKeyMatcher, type ApiKey } from './apiKeys.js'
+import { createJwtVerifier, scopesOf, type JwtOptions } from './jwt.js'
+import { globToRegExp } from './messageFilter.js'
+
+// Who sent a request, from its API key or its verified token
+export interface Principal {
+  // Token subject, absent for API keys
+  subject?: string
+  scopes: string[]
+  // Tools it may call, empty allows every tool
+  toolPatterns: RegExp[]
+}
+
+export interface CreateAuthOptions {
+  apiKeys: ApiKey[]
+  jwt?: JwtOptions
+  logger: Logger
+}
+
+// JSON-RPC errors for requests without valid credentials, and for tools the
+// credentials may not call
+export const UNAUTHORIZED_ERROR = {
+  code: -32001,
+  message: 'Unauthorized: missing or invalid credentials',
+}
+const FORBIDDEN_CODE = -32003
+
+// Token scopes like "tool:read_*" limit the tools the token may call
+const TOOL_SCOPE_PREFIX = 'tool:'
+
+const PROTECTED_RESOURCE_PATH = '/.well-known/oauth-protected-resource'
+
+// "Authorization: Bearer <token>" or "x-api-key: <key>"
+const presentedCredential = (req: IncomingMessage) => {
+  const authorization = req.headers.authorization
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim()
+  }
+
+  const apiKey = req.headers['x-api-key']
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey
+}
+
+// Client messages are checked before they are validated, so anything may come
+const isToolCall = (
+  message: unknown,
+): message is { method: 'tools/call'; params?: { name?: unknown } } =>
+  typeof message === 'object' &&
+  message !== null &&
+  'method' in message &&
+  message.method === 'tools/call'
+
+// Where clients reach the gateway, behind a reverse proxy too
+const originOf = (req: IncomingMessage) => {
+  const header = (name: string) => {
+    const value = req.headers[name]
+    return (Array.isArray(value) ? value[0] : value)?.split(',')[0].trim()
+  }
+  return `${header('x-forwarded-proto') ?? 'http'}://${header('x-forwarded-host') ?? header('host')}`
+}
+
+/**
+ * Checks the credentials of HTTP requests and WebSocket upgrades: API keys,
+ * and bearer JWTs when `jwt` is given. Also decides which tools a client may
+ * call.
+ *
+ * @param options.apiKeys Static API keys
+ * @param options.jwt JWT validation options, if tokens are accepted
+ * @param options.logger Logger instance
+ */
+export const createAuth = ({ apiKeys, jwt, logger }: CreateAuthOptions) => {
+  const matchApiKey = createApiKeyMatcher(apiKeys)
+  const verifyJwt = jwt ? createJwtVerifier(jwt) : undefined
+
+  // Principals of the requests that passed authentication
+  const principals = new WeakMap<IncomingMessage, Principal>()
+
+  const fromCredential = async (
+    credential: string,
+  ): Promise<Principal | undefined> => {
+    const apiKey = matchApiKey(credential)
+    if (apiKey) {
+      return { scopes: [], toolPatterns: apiKey.tools.map(globToRegExp) }
+    }
+
+    if (!verifyJwt) return undefined
+
+    try {
+      const payload = await verifyJwt(credential)
+      const scopes = scopesOf(payload)
+      return {
+        subject: payload.sub,
+        scopes,
+        toolPatterns: scopes
+          .filter((scope) => scope.startsWith(TOOL_SCOPE_PREFIX))
+          .map((scope) => globToRegExp(scope.slice(TOOL_SCOPE_PREFIX.length))),
+      }
+    } catch (err) {
+      logger.warn(`Rejected bearer token: ${(err as Error).message}`)
+      return undefined
+    }
+  }
+
+  // The principal of a request, remembered for principalOf
+  const authenticate = async (req: IncomingMessage) => {
+    const credential = presentedCredential(req)
+    const principal = credential ? await fromCredential(credential) : undefined
+    if (principal) principals.set(req, principal)
+    return principal
+  }
+
+  // Points clients to the protected resource metadata, which names the
+  // authorization server
+  const challenge = (req: IncomingMessage, resourcePath: string) =>
+    jwt?.issuer
+      ? `Bearer resource_metadata="${originOf(req)}${PROTECTED_RESOURCE_PATH}${resourcePath}"`
+      : 'Bearer'
+
+  /**
+   * Serves the OAuth protected resource metadata when tokens come from an
+   * issuer, then rejects requests without valid credentials, except CORS
+   * preflights and the exempt paths.
+   *
+   * @param options.app Express app of the gateway
+   * @param options.exempt Paths open to everyone, e.g. health endpoints
+   * @param options.resourcePath Path clients connect to, e.g. /mcp
+   */
+  const protect = ({
+    app,
+    exempt,
+    resourcePath,
+  }: {
+    app: express.Express
+    exempt: string[]
+    resourcePath: string
+  }) => {
+    const metadataPaths = jwt?.issuer
+      ? [PROTECTED_RESOURCE_PATH, `${PROTECTED_RESOURCE_PATH}${resourcePath}`]
+      : []
+
+    for (const path of metadataPaths) {
+      app.get(path, (req, res) => {
+        res.json({
+          resource: `${originOf(req)}${resourcePath}`,
+          authorization_servers: [jwt!.issuer],
+          bearer_methods_supported: ['header'],
+        })
+      })
+    }
+
+    app.use(async (req, res, next) => {
+      if (
+        req.method === 'OPTIONS' ||
+        exempt.includes(req.path) ||
+        metadataPaths.includes(req.path)
+      ) {
+        return next()
+      }
+
+      if (await authenticate(req)) return next()
+
+      res.setHeader('WWW-Authenticate', challenge(req, resourcePath))
+      res.status(401).json({
+        jsonrpc: '2.0',
+        error: UNAUTHORIZED_ERROR,
+        id: null,
+      })
+    })
+  }
+
+  // The error for a tools/call the principal may not make, or undefined
+  const checkMessage = (principal: Principal | undefined, message: unknown) => {
+    if (!isToolCall(message) || !principal?.toolPatterns.length) {
+      return undefined
+    }
+
+    const name = message.params?.name
+    if (
+      typeof name === 'string' &&
+      principal.toolPatterns.some((pattern) => pattern.test(name))
+    ) {
+      return undefined
+    }
+
+    return {
+      code: FORBIDDEN_CODE,
+      message: `Forbidden: not allowed to call tool ${name}`,
+    }
+  }
+
+  return {
+    authenticate,
+    challenge,
+    protect,
+    principalOf: (req: IncomingMessage) => principals.get(req),
+    checkMessage,
+    // For requests that passed authentication
+    checkRequestMessage: (req: IncomingMessage, message: unknown) =>
+      checkMessage(principals.get(req), message),
+    // Log fields identifying a principal, e.g. the token subject
+    logFields: (principal: Principal | undefined): LogFields => ({
+      sub: principal?.subject,
+      scopes: principal?.scopes.length ? principal.scopes.join(' ') : undefined,
+    }),
+    description: [
+      apiKeys.length ? `${apiKeys.length} API key(s)` : '',
+      jwt
+        ? `JWT (${[
+            jwt.jwks ? `jwks ${jwt.jwks}` : '',
+            jwt.issuer ? `issuer ${jwt.issuer}` : '',
+            jwt.audience ? `audience ${jwt.audience}` : '',
+          ]
+            .filter(Boolean)
+            .join(', ')})`
+        : '',
+    ]
+      .filter(Boolean)
+      .join(', '),
+  }
+}
+
+export type Auth = ReturnType<typeof createAuth>
@@ -0,0 +1,315 @@
+import type {
+  ClientCapabilities,
+  JSONRPCMessage,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js'
+import { Logger, Upstream } from '../types.js'
+import { createInitializeCache, InitializeCache } from './initializeCache.js'
+import { createRequestIdMultiplexer } from './requestIdMultiplexer.js'
+import type { FilterRules } from './messageFilter.js'
+import {
+  CHILD_EXITED_ERROR,
+  superviseChild,
+  SupervisedChild,
+} from './superviseChild.js'
+
+export type PoolStrategy = 'least-in-flight' | 'round-robin'
+
+export interface ChildPoolOptions {
+  stdioCmd: string
+  logger: Logger
+  size: number
+  strategy: PoolStrategy
+  stickySessions: boolean
+  healthCheckInterval: number
+  maxRestarts: number
+  restartWindow: number
+  filter?: FilterRules
+  capabilities?: ClientCapabilities
+  onMessage: (message: JSONRPCMessage) => void
+  onGiveUp: () => void
+}
+
+interface PoolMember {
+  index: number
+  child: SupervisedChild
+  initializeCache: InitializeCache
+  // Requests sent to this member that it hasn't answered yet, with the
+  // session that sent them
+  inFlight: Map<RequestId, string | undefined>
+  // ID of the health check ping still waiting for an answer
+  pendingPing?: string
+}
+
+const HEALTH_CHECK_ID_PREFIX = 'supergateway-ping-'
+
+/**
+ * Runs `size` identical supervised children and spreads requests across them.
+ * Every member is initialized on its own, and a member that doesn't answer a
+ * health check ping by the next check is killed and restarted. A member that
+ * exits too often is taken out of the pool.
+ *
+ * @param options Configuration options
+ * @param options.stdioCmd Shell command that starts the server
+ * @param options.logger Logger instance
+ * @param options.size Number of children
+ * @param options.strategy How to pick the member for a request
+ * @param options.stickySessions Send all messages of a session to the same member
+ * @param options.healthCheckInterval Time between health check pings in ms, 0 disables them
+ * @param options.maxRestarts Restarts allowed per member within the window
+ * @param options.restartWindow Window for counting restarts in ms
+ * @param options.filter Tools, resources and prompts hidden from clients
+ * @param options.capabilities Client capabilities announced to the children
+ * @param options.onMessage Called with every message for the clients
+ * @param options.onGiveUp Called when every member was taken out of the pool
+ */
+export function createChildPool(options: ChildPoolOptions) {
+  const {
+    stdioCmd,
+    logger,
+    size,
+    strategy,
+    stickySessions,
+    healthCheckInterval,
+    maxRestarts,
+    restartWindow,
+    capabilities,
+    onMessage,
+    onGiveUp,
+    filter,
+  } = options
+
+  const members: PoolMember[] = []
+
+  // Requests from members get pool-unique IDs, so a client's answer reaches
+  // the member that asked
+  const memberRequests = createRequestIdMultiplexer<PoolMember>()
+
+  // The member each session is pinned to with sticky sessions
+  const pinned = new Map<string, PoolMember>()
+
+  let nextMember = 0
+  let lastPing = 0
+
+  const handleMemberMessage = (member: PoolMember, message: JSONRPCMessage) => {
+    if (member.initializeCache.handleChildMessage(message)) {
+      return
+    }
+
+    if ('method' in message && 'id' in message) {
+      onMessage(
+        memberRequests.outbound({
+          sessionId: String(member.index),
+          request: message,
+          context: member,
+        }),
+      )
+      return
+    }
+
+    if (!('method' in message) && message.id !== undefined) {
+      // Any answer to the ping, even an error, means the member is alive
+      if (message.id === member.pendingPing) {
+        member.pendingPing = undefined
+        return
+      }
+
+      member.inFlight.delete(message.id)
+    }
+
+    onMessage(message)
+  }
+
+  const startMember = (index: number) => {
+    const initializeCache = createInitializeCache({ logger, capabilities })
+
+    const child = superviseChild({
+      stdioCmd,
+      logger,
+      onMessage: (message) => handleMemberMessage(member, message),
+      maxRestarts,
+      restartWindow,
+      filter,
+      // Don't leave clients waiting for answers that will never come
+      onExit: () => {
+        for (const id of member.inFlight.keys()) {
+          onMessage({ jsonrpc: '2.0', id, error: CHILD_EXITED_ERROR })
+        }
+        member.inFlight.clear()
+        member.pendingPing = undefined
+        memberRequests.dropSession(String(index))
+      },
+      // Sessions keep working with the new child after the handshake is replayed
+      onRestart: (write) => initializeCache.start(write),
+      // The other members carry on, the pool only gives up without any
+      onGiveUp: () => {
+        logger.error(`Pool member ${index} is taken out of the pool`)
+        if (members.every((member) => member.child.gaveUp)) {
+          onGiveUp()
+        }
+      },
+    })
+
+    const member: PoolMember = {
+      index,
+      child,
+      initializeCache,
+      inFlight: new Map(),
+    }
+    initializeCache.start(child.write)
+
+    return member
+  }
+
+  for (let index = 0; index < size; index++) {
+    members.push(startMember(index))
+  }
+
+  // Pick a member by strategy, preferring members that are running
+  const balance = () => {
+    const inPool = members.filter((member) => !member.child.gaveUp)
+    const running = inPool.filter((member) => member.child.running)
+    const candidates = running.length
+      ? running
+      : inPool.length
+        ? inPool
+        : members
+    const offset = nextMember++ % candidates.length
+
+    if (strategy === 'round-robin') {
+      return candidates[offset]
+    }
+
+    // Rotate the starting point so idle members share the load
+    let best = candidates[offset]
+    for (let i = 1; i < candidates.length; i++) {
+      const member = candidates[(offset + i) % candidates.length]
+      if (member.inFlight.size < best.inFlight.size) {
+        best = member
+      }
+    }
+    return best
+  }
+
+  const pick = (sessionId?: string) => {
+    if (!stickySessions || !sessionId) {
+      return balance()
+    }
+
+    let member = pinned.get(sessionId)
+    if (!member || member.child.gaveUp) {
+      member = balance()
+      pinned.set(sessionId, member)
+      logger.info(`Session ${sessionId} pinned to pool member ${member.index}`)
+    }
+    return member
+  }
+
+  const send = (
+    message: JSONRPCMessage,
+    { sessionId }: { sessionId?: string } = {},
+  ) => {
+    // Answers to requests a member sent to a client
+    if (!('method' in message)) {
+      const routed = memberRequests.inbound(message)
+      if (routed) {
+        routed.context.child.write(routed.message)
+      } else {
+        logger.warn(
+          `No pool member is waiting for an answer with ID ${message.id}`,
+        )
+      }
+      return
+    }
+
+    if (!('id' in message)) {
+      // Cancellations go to the member working on the session's request,
+      // which won't answer it anymore
+      if (message.method === 'notifications/cancelled') {
+        const requestId = message.params?.requestId
+        if (typeof requestId !== 'string' && typeof requestId !== 'number') {
+          return
+        }
+        const working = members.find(
+          (member) =>
+            member.inFlight.has(requestId) &&
+            member.inFlight.get(requestId) === sessionId,
+        )
+        if (working) {
+          working.inFlight.delete(requestId)
+          working.child.write(message)
+        }
+        return
+      }
+
+      const targets = stickySessions && sessionId ? [pick(sessionId)] : members
+      for (const member of targets) {
+        member.child.write(message)
+      }
+      return
+    }
+
+    const member = pick(sessionId)
+    member.inFlight.set(message.id, sessionId)
+    member.child.write(message)
+  }
+
+  const healthCheck = () => {
+    for (const member of members) {
+      if (!member.child.running) continue
+
+      if (member.pendingPing) {
+        logger.error(
+          `Pool member ${member.index} did not answer the health check, replacing it`,
+        )
+        member.pendingPing = undefined
+        member.child.restart()
+        continue
+      }
+
+      member.pendingPing = `${HEALTH_CHECK_ID_PREFIX}${++lastPing}`
+      member.child.write({
+        jsonrpc: '2.0',
+        id: member.pendingPing,
+        method: 'ping',
+      })
+    }
+  }
+
+  const healthTimer =
+    healthCheckInterval > 0
+      ? setInterval(healthCheck, healthCheckInterval)
+      : undefined
+
+  const upstream: Upstream = {
+    send,
+    close: () => {
+      clearInterval(healthTimer)
+      for (const member of members) {
+        member.child.kill()
+      }
+    },
+    closeSession: (sessionId) => {
+      pinned.delete(sessionId)
+    },
+  }
+
+  return {
+    ...upstream,
+    // The members are identical, so any of their handshakes can answer
+    // client initialize requests
+    initializeCache: members[0].initializeCache,
+    get restarts() {
+      return members.reduce((sum, member) => sum + member.child.restarts, 0)
+    },
+    status: () =>
+      members.map((member) => ({
+        pid: member.child.child.pid,
+        running: member.child.running,
+        inFlight: member.inFlight.size,
+        restarts: member.child.restarts,
+      })),
+  }
+}
+
+export type ChildPool = ReturnType<typeof createChildPool>
@@ -0,0 +1,124 @@
+import { readFileSync } from 'fs'
+import { extname } from 'path'
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+import { LOG_FORMATS, LOG_LEVELS } from './logger.js'
+
+const stringList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : [value]))
+
+const outputTransport = z.enum(['stdio', 'sse', 'ws', 'http-stream'])
+
+// Keys are the CLI option names, so every setting works the same way on the
+// command line, in SUPERGATEWAY_* environment variables and in the file
+const configSchema = z
+  .object({
+    stdio: z.string(),
+    // Either name="command" strings like --server, or a map of names to commands
+    server: z
+      .union([stringList, z.record(z.string())])
+      .transform((value) =>
+        Array.isArray(value)
+          ? value
+          : Object.entries(value).map(([name, cmd]) => `${name}=${cmd}`),
+      ),
+    aggregate: z.boolean(),
+    sse: z.string().url(),
+    streamableHttp: z.string().url(),
+    ws: z.string().url(),
+    // A list is joined into the comma-separated form the CLI takes
+    outputTransport: z
+      .union([outputTransport, z.array(outputTransport).nonempty()])
+      .transform((value) => (Array.isArray(value) ? value.join(',') : value)),
+    port: z.number().int().min(0).max(65535),
+    baseUrl: z.string(),
+    ssePath: z.string().startsWith('/'),
+    messagePath: z.string().startsWith('/'),
+    endpoint: z.string().startsWith('/'),
+    responseMode: z.enum(['auto', 'batch', 'stream']),
+    batchTimeout: z.number().int().nonnegative(),
+    sessionHeaderName: z.string().min(1),
+    sessionIdleTimeout: z.number().int().nonnegative(),
+    maxSessions: z.number().int().nonnegative(),
+    eventStoreMaxEvents: z.number().int().positive(),
+    eventStoreMaxBytes: z.number().int().positive(),
+    eventStoreFile: z.string(),
+    sessionIsolation: z.enum(['shared', 'process']),
+    maxChildren: z.number().int().positive(),
+    childIdleTimeout: z.number().int().nonnegative(),
+    maxRestarts: z.number().int().nonnegative(),
+    restartWindow: z.number().int().nonnegative(),
+    poolSize: z.number().int().positive(),
+    poolStrategy: z.enum(['least-in-flight', 'round-robin']),
+    stickySessions: z.boolean(),
+    poolHealthCheckInterval: z.number().int().nonnegative(),
+    allowTool: stringList,
+    denyTool: stringList,
+    allowResource: stringList,
+    denyResource: stringList,
+    allowPrompt: stringList,
+    denyPrompt: stringList,
+    logLevel: z.enum(LOG_LEVELS),
+    logFormat: z.enum(LOG_FORMATS),
+    // true allows all origins like --cors without values
+    cors: z
+      .union([z.boolean(), stringList])
+      .transform((value) =>
+        value === true ? [] : value === false ? undefined : value,
+      ),
+    healthEndpoint: stringList,
+    metricsEndpoint: z.string(),
+    record: z.string(),
+    apiKey: stringList,
+    apiKeysFile: z.string(),
+    jwtJwks: z.string(),
+    jwtIssuer: z.string(),
+    jwtAudience: z.string(),
+    // Either "Key: Value" strings like --header, or a map of header names to values
+    header: z
+      .union([stringList, z.record(z.string())])
+      .transform((value) =>
+        Array.isArray(value)
+          ? value
+          : Object.entries(value).map(([key, val]) => `${key}: ${val}`),
+      ),
+    oauth2Bearer: z.string(),
+  })
+  .partial()
+  .strict()
+
+export type GatewayConfig = z.infer<typeof configSchema>
+
+/**
+ * Reads and validates a JSON or YAML config file. Files ending in .json are
+ * parsed as JSON, everything else as YAML.
+ *
+ * @param configPath Path of the config file
+ * @returns The settings keyed by CLI option name
+ * @throws Error naming the offending key when the file is invalid
+ */
+export const loadConfig = (configPath: string): GatewayConfig => {
+  const text = readFileSync(configPath, 'utf8')
+
+  let raw: unknown
+  try {
+    raw = extname(configPath) === '.json' ? JSON.parse(text) : parseYaml(text)
+  } catch (err) {
+    throw new Error(`Cannot parse config file ${configPath}: ${String(err)}`)
+  }
+
+  const result = configSchema.safeParse(raw ?? {})
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => {
+      const keys =
+        issue.code === 'unrecognized_keys' ? issue.keys : [issue.path.join('.')]
+      return `  - ${keys.join(', ') || '(root)'}: ${issue.message}`
+    })
+    throw new Error(
+      `Invalid config file ${configPath}:\n${problems.join('\n')}`,
+    )
+  }
+
+  return result.data
+}
@@ -0,0 +1,199 @@
+import {
+  closeSync,
+  existsSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+  writeSync,
+} from 'fs'
+import type { Logger } from '../types.js'
+
+export const DEFAULT_MAX_EVENTS = 1000
+export const DEFAULT_MAX_BYTES = 10 * 1024 * 1024
+
+// An SSE event sent on a stream, kept for clients that resume the stream
+export interface StoredEvent {
+  // "<streamId>_<seq>", unique and increasing across all streams
+  id: string
+  streamId: string
+  seq: number
+  message: object
+  bytes: number
+}
+
+export interface CreateEventStoreOptions {
+  maxEvents?: number
+  maxBytes?: number
+  // JSON Lines file keeping the events across restarts
+  path?: string
+  logger: Logger
+}
+
+const eventId = (streamId: string, seq: number) => `${streamId}_${seq}`
+
+const parseEventId = (id: string) => {
+  const separator = id.lastIndexOf('_')
+  const seq = Number(id.slice(separator + 1))
+  return separator > 0 && Number.isInteger(seq)
+    ? { streamId: id.slice(0, separator), seq }
+    : undefined
+}
+
+/**
+ * Keeps the events sent on HTTP Stream SSE streams so a client can resume a
+ * stream with Last-Event-ID. The oldest events are dropped once the store
+ * holds more than `maxEvents` events or `maxBytes` bytes of messages.
+ *
+ * With `path`, events are also appended to a file and loaded from it on
+ * start, so streams can be resumed after a restart. The file is rewritten
+ * without the dropped events once it holds twice as many lines as events.
+ *
+ * @param options.maxEvents Most events kept across all streams
+ * @param options.maxBytes Most bytes of messages kept across all streams
+ * @param options.path File backing the store, if any
+ * @param options.logger Logger instance
+ * @throws Error when the file can't be read or opened
+ */
+export const createEventStore = ({
+  maxEvents = DEFAULT_MAX_EVENTS,
+  maxBytes = DEFAULT_MAX_BYTES,
+  path,
+  logger,
+}: CreateEventStoreOptions) => {
+  // Events of every stream in the order they were stored
+  const events = new Map<string, StoredEvent>()
+  // Events of each stream, with the highest seq of the stream that was
+  // dropped to stay within bounds
+  const streams = new Map<
+    string,
+    { events: StoredEvent[]; evictedSeq: number }
+  >()
+  let bytes = 0
+  let seq = 0
+  let fileLines = 0
+  let fd: number | undefined
+
+  const evictOldest = () => {
+    const [oldest] = events.values()
+    events.delete(oldest.id)
+    bytes -= oldest.bytes
+
+    const stream = streams.get(oldest.streamId)!
+    stream.events.shift()
+    stream.evictedSeq = oldest.seq
+    if (!stream.events.length) streams.delete(oldest.streamId)
+  }
+
+  const add = (event: StoredEvent) => {
+    events.set(event.id, event)
+    bytes += event.bytes
+    seq = Math.max(seq, event.seq)
+
+    const stream = streams.get(event.streamId) ?? { events: [], evictedSeq: 0 }
+    stream.events.push(event)
+    streams.set(event.streamId, stream)
+
+    while (events.size > maxEvents || (bytes > maxBytes && events.size > 1)) {
+      evictOldest()
+    }
+  }
+
+  const line = ({ streamId, seq, message }: StoredEvent) =>
+    JSON.stringify({ streamId, seq, message }) + '\n'
+
+  const compact = () => {
+    if (!path) return
+
+    writeFileSync(`${path}.tmp`, [...events.values()].map(line).join(''))
+    renameSync(`${path}.tmp`, path)
+    if (fd !== undefined) closeSync(fd)
+    fd = openSync(path, 'a')
+    fileLines = events.size
+  }
+
+  if (path) {
+    if (existsSync(path)) {
+      for (const [index, text] of readFileSync(path, 'utf8')
+        .split('\n')
+        .entries()) {
+        if (!text.trim()) continue
+        try {
+          const { streamId, seq, message } = JSON.parse(text)
+          add({
+            id: eventId(streamId, seq),
+            streamId,
+            seq,
+            message,
+            bytes: Buffer.byteLength(JSON.stringify(message)),
+          })
+        } catch (err) {
+          logger.warn(
+            `Skipping invalid event store line ${index + 1} of ${path}: ${(err as Error).message}`,
+          )
+        }
+      }
+    }
+    compact()
+    logger.info(`Loaded ${events.size} stored events from ${path}`)
+  }
+
+  return {
+    // Stores a message sent on a stream, returns its event ID
+    store: (streamId: string, message: object) => {
+      const event: StoredEvent = {
+        id: eventId(streamId, ++seq),
+        streamId,
+        seq,
+        message,
+        bytes: Buffer.byteLength(JSON.stringify(message)),
+      }
+      add(event)
+
+      if (fd !== undefined) {
+        writeSync(fd, line(event))
+        if (++fileLines > 2 * events.size) compact()
+      }
+      return event.id
+    },
+
+    // The stream of a Last-Event-ID and its events after that ID, undefined
+    // for IDs this store never handed out. `complete` is false when events
+    // after the ID were already dropped
+    replayAfter: (lastEventId: string) => {
+      const parsed = parseEventId(lastEventId)
+      if (!parsed || parsed.seq > seq) return undefined
+
+      // A stream without stored events may have lost some to eviction when
+      // anything newer than the ID was dropped
+      const stream = streams.get(parsed.streamId)
+      const [oldest] = events.values()
+      return {
+        streamId: parsed.streamId,
+        events: (stream?.events ?? []).filter(
+          (event) => event.seq > parsed.seq,
+        ),
+        complete: stream
+          ? stream.evictedSeq <= parsed.seq
+          : !oldest || oldest.seq <= parsed.seq + 1,
+      }
+    },
+
+    // Whether events of the stream are still stored
+    hasStream: (streamId: string) => streams.has(streamId),
+
+    // Forgets the events of streams that can't be resumed anymore
+    dropStreams: (streamIds: Iterable<string>) => {
+      for (const streamId of streamIds) {
+        for (const event of streams.get(streamId)?.events ?? []) {
+          events.delete(event.id)
+          bytes -= event.bytes
+        }
+        streams.delete(streamId)
+      }
+      if (fd !== undefined && fileLines > 2 * events.size) compact()
+    },
+  }
+}
+
+export type EventStore = ReturnType<typeof createEventStore>
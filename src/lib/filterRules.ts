@@ -0,0 +1,24 @@
+import type { FilterRules } from './messageFilter.js'
+
+const patterns = (values: (string | number)[]) =>
+  values.map((value) => `${value}`)
+
+export const filterRules = ({
+  argv,
+}: {
+  argv: {
+    allowTool: (string | number)[]
+    denyTool: (string | number)[]
+    allowResource: (string | number)[]
+    denyResource: (string | number)[]
+    allowPrompt: (string | number)[]
+    denyPrompt: (string | number)[]
+  }
+}): FilterRules => ({
+  allowTool: patterns(argv.allowTool),
+  denyTool: patterns(argv.denyTool),
+  allowResource: patterns(argv.allowResource),
+  denyResource: patterns(argv.denyResource),
+  allowPrompt: patterns(argv.allowPrompt),
+  denyPrompt: patterns(argv.denyPrompt),
+})
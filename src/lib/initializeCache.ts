@@ -0,0 +1,143 @@
+import {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type ClientCapabilities,
+  type InitializeResult,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+} from '@modelcontextprotocol/sdk/types.js'
+import { getVersion } from './getVersion.js'
+import { Logger } from '../types.js'
+
+// Protocol versions the gateway can pass through, newest first
+export const KNOWN_PROTOCOL_VERSIONS = [
+  ...new Set(['2025-03-26', ...SUPPORTED_PROTOCOL_VERSIONS]),
+].sort((a, b) => b.localeCompare(a))
+
+const HANDSHAKE_REQUEST_ID = 'supergateway-initialize'
+
+/**
+ * Picks the protocol version to announce to a client: the version it asked for
+ * when the gateway knows it and the child speaks at least that version,
+ * otherwise the child's own version.
+ */
+export const negotiateProtocolVersion = ({
+  requested,
+  childVersion,
+}: {
+  requested: unknown
+  childVersion: string
+}) => {
+  if (
+    typeof requested === 'string' &&
+    KNOWN_PROTOCOL_VERSIONS.includes(requested) &&
+    requested.localeCompare(childVersion) <= 0
+  ) {
+    return requested
+  }
+
+  return childVersion
+}
+
+/**
+ * Runs the initialize / notifications/initialized handshake with a child once
+ * and answers every later client initialize from the cached result, so a
+ * long-lived child that is shared between sessions is only initialized once.
+ */
+export const createInitializeCache = ({
+  logger,
+  capabilities = {},
+}: {
+  logger: Logger
+  capabilities?: ClientCapabilities
+}) => {
+  let result: InitializeResult | undefined
+  let error: { code: number; message: string; data?: unknown } | undefined
+  let settle: () => void = () => {}
+  const ready = new Promise<void>((resolve) => {
+    settle = resolve
+  })
+
+  // Writes the handshake to the child, and ends it
+  let writeHandshake: (message: JSONRPCMessage) => void = () => {}
+  let endHandshake = () => {}
+
+  // Send the gateway's own initialize to the child, the promise settles once
+  // the child answered and got notifications/initialized
+  const start = (write: (message: JSONRPCMessage) => void) => {
+    writeHandshake = write
+    const done = new Promise<void>((resolve) => {
+      endHandshake = resolve
+    })
+
+    logger.info('Initializing child')
+    write({
+      jsonrpc: '2.0',
+      id: HANDSHAKE_REQUEST_ID,
+      method: 'initialize',
+      params: {
+        protocolVersion: KNOWN_PROTOCOL_VERSIONS[0],
+        capabilities,
+        clientInfo: {
+          name: 'supergateway',
+          version: getVersion(),
+        },
+      },
+    })
+    return done
+  }
+
+  // Consume the child's answer to the handshake; returns false for any other message
+  const handleChildMessage = (message: any) => {
+    if (message?.id !== HANDSHAKE_REQUEST_ID || message.method !== undefined) {
+      return false
+    }
+
+    if (message.error) {
+      error = message.error
+      logger.error('Child rejected initialize:', JSON.stringify(message.error))
+    } else {
+      result = message.result
+      writeHandshake({ jsonrpc: '2.0', method: 'notifications/initialized' })
+      logger.info(
+        `Child initialized (protocol version ${result?.protocolVersion})`,
+      )
+    }
+
+    settle()
+    endHandshake()
+    return true
+  }
+
+  // Answer a client's initialize request from the cache
+  const respond = async (request: JSONRPCRequest): Promise<JSONRPCMessage> => {
+    await ready
+
+    if (!result) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: error ?? { code: -32603, message: 'Child is not initialized' },
+      }
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        ...result,
+        protocolVersion: negotiateProtocolVersion({
+          requested: request.params?.protocolVersion,
+          childVersion: result.protocolVersion,
+        }),
+      },
+    }
+  }
+
+  return {
+    start,
+    handleChildMessage,
+    respond,
+  }
+}
+
+export type InitializeCache = ReturnType<typeof createInitializeCache>
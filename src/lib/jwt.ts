@@ -0,0 +1,84 @@
+import { readFileSync } from 'fs'
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  jwtVerify,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose'
+
+export interface JwtOptions {
+  // JWKS file or URL, discovered from the issuer when absent
+  jwks?: string
+  issuer?: string
+  audience?: string
+}
+
+const isUrl = (value: string) => /^https?:\/\//.test(value)
+
+const loadJwksFile = (path: string) => {
+  try {
+    return createLocalJWKSet(JSON.parse(readFileSync(path, 'utf8')))
+  } catch (err) {
+    throw new Error(`Invalid JWKS file ${path}: ${(err as Error).message}`)
+  }
+}
+
+// The jwks_uri of the issuer's OpenID Connect or OAuth metadata
+const discoverJwksUri = async (issuer: string) => {
+  const base = issuer.replace(/\/$/, '')
+  for (const path of [
+    '/.well-known/openid-configuration',
+    '/.well-known/oauth-authorization-server',
+  ]) {
+    const response = await fetch(`${base}${path}`).catch(() => undefined)
+    if (!response?.ok) continue
+
+    const metadata = await response.json().catch(() => undefined)
+    if (typeof metadata?.jwks_uri === 'string') return metadata.jwks_uri
+  }
+  throw new Error(`Cannot discover the JWKS of issuer ${issuer}`)
+}
+
+/**
+ * Scopes of a token, from a space separated `scope` claim or an `scp` list.
+ */
+export const scopesOf = (payload: JWTPayload): string[] => {
+  const scopes = payload.scope ?? payload.scp
+  if (Array.isArray(scopes)) return scopes.map(String)
+  return typeof scopes === 'string' ? scopes.split(' ').filter(Boolean) : []
+}
+
+/**
+ * Verifies bearer JWTs: signature against the JWKS, expiry and not-before,
+ * and the issuer and audience when given. A JWKS file is read right away,
+ * URLs are fetched on first use and again for unknown key IDs.
+ *
+ * @param options.jwks JWKS file or URL, discovered from the issuer when absent
+ * @param options.issuer Required `iss` claim
+ * @param options.audience Required `aud` claim
+ * @throws Error when the JWKS file is invalid
+ */
+export const createJwtVerifier = ({ jwks, issuer, audience }: JwtOptions) => {
+  let keys: Promise<JWTVerifyGetKey> | undefined =
+    jwks && !isUrl(jwks) ? Promise.resolve(loadJwksFile(jwks)) : undefined
+
+  const getKeys = () => {
+    keys ??= (jwks ? Promise.resolve(jwks) : discoverJwksUri(issuer!)).then(
+      (uri) => createRemoteJWKSet(new URL(uri)),
+    )
+    // Try discovery again on the next token rather than failing forever
+    keys.catch(() => {
+      keys = undefined
+    })
+    return keys
+  }
+
+  return async (token: string) => {
+    const { payload } = await jwtVerify(token, await getKeys(), {
+      issuer,
+      audience,
+    })
+    return payload
+  }
+}
@@ -0,0 +1,122 @@
+import { format as formatArgs } from 'util'
+import type { LogFields, Logger, MessageDirection } from '../types.js'
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'none'] as const
+export type LogLevel = (typeof LOG_LEVELS)[number]
+
+export const LOG_FORMATS = ['text', 'json'] as const
+export type LogFormat = (typeof LOG_FORMATS)[number]
+
+type Level = Exclude<LogLevel, 'none'>
+
+export interface CreateLoggerOptions {
+  level: LogLevel
+  format: LogFormat
+  // Everything goes to stderr when stdout carries the MCP messages
+  stderrOnly: boolean
+}
+
+// Undefined fields are left out, so callers can pass optional values as is
+const definedFields = (fields: LogFields) =>
+  Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined),
+  )
+
+const formatText = (args: any[], fields: LogFields) => {
+  const pairs = Object.entries(fields).map(
+    ([key, value]) =>
+      `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`,
+  )
+  return formatArgs('[supergateway]', ...args, ...pairs)
+}
+
+const formatJson = (level: Level, args: any[], fields: LogFields) =>
+  JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: formatArgs(...args),
+    ...fields,
+  })
+
+/**
+ * Creates the gateway's logger. Lines below `level` are dropped, "text"
+ * lines look like `[supergateway] message key=value` and "json" lines are
+ * one object per line with `time`, `level`, `msg` and the fields.
+ *
+ * @param options Configuration options
+ * @param options.level Lowest level that is logged, "none" logs nothing
+ * @param options.format Line format
+ * @param options.stderrOnly Log debug and info lines to stderr instead of stdout
+ */
+export const createLogger = (options: CreateLoggerOptions): Logger => {
+  const { level, format, stderrOnly } = options
+  const threshold = LOG_LEVELS.indexOf(level)
+
+  const build = (fields: LogFields): Logger => {
+    const write = (lineLevel: Level) => {
+      if (LOG_LEVELS.indexOf(lineLevel) < threshold) return () => {}
+
+      const stream =
+        stderrOnly || lineLevel === 'warn' || lineLevel === 'error'
+          ? process.stderr
+          : process.stdout
+
+      return (...args: any[]) => {
+        const line =
+          format === 'json'
+            ? formatJson(lineLevel, args, fields)
+            : formatText(args, fields)
+        stream.write(line + '\n')
+      }
+    }
+
+    return {
+      debug: write('debug'),
+      info: write('info'),
+      warn: write('warn'),
+      error: write('error'),
+      withFields: (more) => build({ ...fields, ...definedFields(more) }),
+    }
+  }
+
+  return build({})
+}
+
+/**
+ * Logs an MCP message at debug level, with its ID and method as fields so
+ * production logs at info stay readable.
+ *
+ * @param options.logger Logger instance
+ * @param options.label Where the message goes, e.g. "Child → SSE"
+ * @param options.message The JSON-RPC message
+ * @param options.direction Whether the message goes to the MCP server or to the client
+ * @param options.sessionId Client session the message belongs to, if any
+ * @param options.method Method of the request a response answers, if known
+ * @param options.durationMs Time the request took, for responses
+ */
+export const logMessage = ({
+  logger,
+  label,
+  message,
+  direction,
+  sessionId,
+  method,
+  durationMs,
+}: {
+  logger: Logger
+  label: string
+  message: any
+  direction: MessageDirection
+  sessionId?: string
+  method?: string
+  durationMs?: number
+}) =>
+  logger
+    .withFields({
+      sessionId,
+      requestId: message?.id,
+      method: message?.method ?? method,
+      direction,
+      durationMs,
+    })
+    .debug(`${label}:`, JSON.stringify(message))
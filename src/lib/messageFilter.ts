@@ -0,0 +1,191 @@
+import type {
+  JSONRPCMessage,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js'
+
+// Glob patterns for the tools, resources and prompts clients may see. An
+// empty allow list allows everything, deny patterns win over allow patterns
+export interface FilterRules {
+  allowTool: string[]
+  denyTool: string[]
+  allowResource: string[]
+  denyResource: string[]
+  allowPrompt: string[]
+  denyPrompt: string[]
+}
+
+// "*" matches any run of characters, "?" a single one
+export const globToRegExp = (glob: string) =>
+  new RegExp(
+    `^${glob
+      .split('')
+      .map((char) =>
+        char === '*'
+          ? '.*'
+          : char === '?'
+            ? '.'
+            : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'),
+      )
+      .join('')}$`,
+  )
+
+const createMatcher = (allow: string[], deny: string[]) => {
+  const allowPatterns = allow.map(globToRegExp)
+  const denyPatterns = deny.map(globToRegExp)
+
+  return (value: unknown) =>
+    typeof value === 'string' &&
+    (!allowPatterns.length ||
+      allowPatterns.some((pattern) => pattern.test(value))) &&
+    !denyPatterns.some((pattern) => pattern.test(value))
+}
+
+export const hasFilterRules = (rules: FilterRules) =>
+  Object.values(rules).some((patterns) => patterns.length > 0)
+
+// One line per kind of rule for the startup log
+export const describeFilterRules = (rules: FilterRules) =>
+  hasFilterRules(rules)
+    ? Object.entries(rules)
+        .filter(([, patterns]) => patterns.length)
+        .map(([key, patterns]) => `${key}=${patterns.join(',')}`)
+        .join(' ')
+    : '(none)'
+
+/**
+ * Hides tools, resources and prompts from clients. Requests for hidden items
+ * are answered with an error instead of reaching the child, and list results
+ * from the child are filtered. Keeps track of the list requests sent to one
+ * child, so use one filter per child.
+ */
+export const createMessageFilter = (rules: FilterRules) => {
+  const isToolVisible = createMatcher(rules.allowTool, rules.denyTool)
+  const isResourceVisible = createMatcher(
+    rules.allowResource,
+    rules.denyResource,
+  )
+  const isPromptVisible = createMatcher(rules.allowPrompt, rules.denyPrompt)
+
+  // List requests sent to the child that it hasn't answered yet
+  const listRequests = new Map<RequestId, string>()
+
+  const reject = (id: RequestId, code: number, message: string) =>
+    ({ jsonrpc: '2.0', id, error: { code, message } }) as JSONRPCMessage
+
+  // Returns the error answer for a request about a hidden item, or undefined
+  // when the message may be written to the child
+  const toChild = (message: any): JSONRPCMessage | undefined => {
+    if (message.id === undefined || message.method === undefined) {
+      return undefined
+    }
+
+    const { id, method, params } = message
+    switch (method) {
+      case 'tools/list':
+      case 'resources/list':
+      case 'resources/templates/list':
+      case 'prompts/list':
+        listRequests.set(id, method)
+        return undefined
+      case 'tools/call':
+        return isToolVisible(params?.name)
+          ? undefined
+          : reject(id, -32602, `Unknown tool: ${params?.name}`)
+      case 'prompts/get':
+        return isPromptVisible(params?.name)
+          ? undefined
+          : reject(id, -32602, `Unknown prompt: ${params?.name}`)
+      case 'resources/read':
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        return isResourceVisible(params?.uri)
+          ? undefined
+          : reject(id, -32002, `Resource not found: ${params?.uri}`)
+      case 'completion/complete': {
+        const ref = params?.ref
+        const visible =
+          ref?.type === 'ref/prompt'
+            ? isPromptVisible(ref.name)
+            : isResourceVisible(ref?.uri)
+        return visible
+          ? undefined
+          : reject(id, -32602, 'Unknown completion reference')
+      }
+      default:
+        return undefined
+    }
+  }
+
+  // Filters list results and drops updates about hidden resources; returns
+  // undefined when the message must not reach clients
+  const fromChild = (message: any) => {
+    if (message.id === undefined) {
+      if (
+        message.method === 'notifications/resources/updated' &&
+        !isResourceVisible(message.params?.uri)
+      ) {
+        return undefined
+      }
+      return message
+    }
+
+    if (message.method !== undefined) return message
+
+    const method = listRequests.get(message.id)
+    listRequests.delete(message.id)
+    if (!method || !message.result) return message
+
+    const { result } = message
+    switch (method) {
+      case 'tools/list':
+        return {
+          ...message,
+          result: {
+            ...result,
+            tools: result.tools?.filter((tool: any) =>
+              isToolVisible(tool.name),
+            ),
+          },
+        }
+      case 'resources/list':
+        return {
+          ...message,
+          result: {
+            ...result,
+            resources: result.resources?.filter((resource: any) =>
+              isResourceVisible(resource.uri),
+            ),
+          },
+        }
+      case 'resources/templates/list':
+        return {
+          ...message,
+          result: {
+            ...result,
+            resourceTemplates: result.resourceTemplates?.filter(
+              (template: any) => isResourceVisible(template.uriTemplate),
+            ),
+          },
+        }
+      case 'prompts/list':
+        return {
+          ...message,
+          result: {
+            ...result,
+            prompts: result.prompts?.filter((prompt: any) =>
+              isPromptVisible(prompt.name),
+            ),
+          },
+        }
+      default:
+        return message
+    }
+  }
+
+  return {
+    toChild,
+    fromChild,
+  }
+}
+
+export type MessageFilter = ReturnType<typeof createMessageFilter>
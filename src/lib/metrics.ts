@@ -0,0 +1,330 @@
+import type express from 'express'
+import type { RequestId } from '@modelcontextprotocol/sdk/types.js'
+
+type Labels = Record<string, string>
+
+interface Metric {
+  render: () => string[]
+}
+
+// Every metric of the process, in the order they are rendered
+const registry: Metric[] = []
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels)
+  return entries.length
+    ? `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+    : ''
+}
+
+// Series are keyed by their label values, in the order of the label names
+const seriesKey = (labelNames: string[], labels: Labels) =>
+  JSON.stringify(labelNames.map((name) => labels[name] ?? ''))
+
+const pickLabels = (labelNames: string[], labels: Labels) =>
+  Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']))
+
+const createSeriesMetric = ({
+  name,
+  help,
+  type,
+  labelNames,
+}: {
+  name: string
+  help: string
+  type: 'counter' | 'gauge'
+  labelNames: string[]
+}) => {
+  const series = new Map<string, { labels: Labels; value: number }>()
+
+  const add = (labels: Labels, value: number) => {
+    const key = seriesKey(labelNames, labels)
+    const entry = series.get(key) ?? {
+      labels: pickLabels(labelNames, labels),
+      value: 0,
+    }
+    entry.value += value
+    series.set(key, entry)
+  }
+
+  // Without labels there is a single series, render it from the start
+  if (!labelNames.length) add({}, 0)
+
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} ${type}`,
+      ...[...series.values()].map(
+        ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`,
+      ),
+    ],
+  })
+
+  return add
+}
+
+const createCounter = (options: {
+  name: string
+  help: string
+  labelNames?: string[]
+}) => {
+  const add = createSeriesMetric({
+    labelNames: [],
+    ...options,
+    type: 'counter',
+  })
+  return {
+    inc: (labels: Labels = {}, value = 1) => add(labels, value),
+  }
+}
+
+const createGauge = (options: {
+  name: string
+  help: string
+  labelNames?: string[]
+}) => {
+  const add = createSeriesMetric({ labelNames: [], ...options, type: 'gauge' })
+  return {
+    inc: (labels: Labels = {}) => add(labels, 1),
+    dec: (labels: Labels = {}) => add(labels, -1),
+  }
+}
+
+const createHistogram = ({
+  name,
+  help,
+  labelNames,
+  buckets,
+}: {
+  name: string
+  help: string
+  labelNames: string[]
+  buckets: number[]
+}) => {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >()
+
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map(
+          (bucket, index) =>
+            `${name}_bucket${formatLabels({ ...labels, le: `${bucket}` })} ${counts[index]}`,
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  })
+
+  return {
+    observe: (labels: Labels, value: number) => {
+      const key = seriesKey(labelNames, labels)
+      const entry = series.get(key) ?? {
+        labels: pickLabels(labelNames, labels),
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      }
+      // Buckets are cumulative
+      buckets.forEach((bucket, index) => {
+        if (value <= bucket) entry.counts[index]++
+      })
+      entry.sum += value
+      entry.count++
+      series.set(key, entry)
+    },
+  }
+}
+
+const requestsTotal = createCounter({
+  name: 'supergateway_requests_total',
+  help: 'JSON-RPC requests answered by MCP servers, by method, tool and status',
+  labelNames: ['method', 'tool', 'status'],
+})
+
+const requestDuration = createHistogram({
+  name: 'supergateway_request_duration_seconds',
+  help: 'Time MCP servers took to answer JSON-RPC requests',
+  labelNames: ['method', 'tool'],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+})
+
+export const requestTimeouts = createCounter({
+  name: 'supergateway_request_timeouts_total',
+  help: 'Requests answered with a timeout error by the gateway',
+  labelNames: ['method'],
+})
+
+export const sessionsActive = createGauge({
+  name: 'supergateway_sessions_active',
+  help: 'Client sessions, by transport',
+  labelNames: ['transport'],
+})
+
+export const sessionsExpired = createCounter({
+  name: 'supergateway_sessions_expired_total',
+  help: 'Client sessions ended by the gateway after being idle, by transport',
+  labelNames: ['transport'],
+})
+
+export const connectionsOpen = createGauge({
+  name: 'supergateway_connections_open',
+  help: 'Open SSE streams and WebSocket connections, by type',
+  labelNames: ['type'],
+})
+
+export const childRestarts = createCounter({
+  name: 'supergateway_child_restarts_total',
+  help: 'Restarts of MCP stdio servers',
+})
+
+export const childStderrLines = createCounter({
+  name: 'supergateway_child_stderr_lines_total',
+  help: 'Lines MCP stdio servers wrote to stderr',
+})
+
+export const bytesReceived = createCounter({
+  name: 'supergateway_bytes_received_total',
+  help: 'Bytes received from clients, by transport',
+  labelNames: ['transport'],
+})
+
+export const bytesSent = createCounter({
+  name: 'supergateway_bytes_sent_total',
+  help: 'Bytes sent to clients, by transport',
+  labelNames: ['transport'],
+})
+
+/**
+ * Times the requests sent to one upstream, from the moment they are sent
+ * until the upstream answers them. Request IDs must be unique per upstream.
+ */
+export const createRequestTracker = () => {
+  const started = new Map<
+    RequestId,
+    { method: string; tool: string; start: number }
+  >()
+
+  const finish = (id: RequestId, status: 'ok' | 'error') => {
+    const request = started.get(id)
+    if (!request) return
+
+    started.delete(id)
+    const { method, tool, start } = request
+    requestsTotal.inc({ method, tool, status })
+    requestDuration.observe(
+      { method, tool },
+      (performance.now() - start) / 1000,
+    )
+  }
+
+  return {
+    sent: (message: any) => {
+      if (message.id === undefined || message.method === undefined) return
+
+      started.set(message.id, {
+        method: message.method,
+        tool: message.method === 'tools/call' ? `${message.params?.name}` : '',
+        start: performance.now(),
+      })
+    },
+    received: (message: any) => {
+      if (message.id === undefined || message.method !== undefined) return
+
+      finish(message.id, message.error ? 'error' : 'ok')
+    },
+    // The upstream is gone, its pending requests failed
+    abandon: () => {
+      for (const id of [...started.keys()]) {
+        finish(id, 'error')
+      }
+    },
+  }
+}
+
+export type RequestTracker = ReturnType<typeof createRequestTracker>
+
+// Count a legacy SSE connection, which is also a session, until it closes
+export const trackSseSession = (res: express.Response) => {
+  sessionsActive.inc({ transport: 'sse' })
+  connectionsOpen.inc({ type: 'sse' })
+  res.on('close', () => {
+    sessionsActive.dec({ transport: 'sse' })
+    connectionsOpen.dec({ type: 'sse' })
+  })
+}
+
+export const renderMetrics = () =>
+  registry.flatMap((metric) => metric.render()).join('\n') + '\n'
+
+/**
+ * Serves the metrics in the Prometheus text format on `metricsEndpoint` and
+ * counts the bytes of every other HTTP request. Does nothing without an
+ * endpoint. Register it before the other routes.
+ */
+export const serveMetrics = ({
+  app,
+  metricsEndpoint,
+}: {
+  app: express.Express
+  metricsEndpoint?: string
+}) => {
+  if (!metricsEndpoint) return
+
+  app.get(metricsEndpoint, (_req, res) => {
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+    res.send(renderMetrics())
+  })
+
+  app.use((req, res, next) => {
+    // Request bodies are read by the routes, trust their declared length
+    bytesReceived.inc(
+      { transport: 'http' },
+      Number(req.headers['content-length']) || 0,
+    )
+
+    const countChunk = (chunk: unknown, encoding?: unknown) => {
+      if (typeof chunk === 'string') {
+        bytesSent.inc(
+          { transport: 'http' },
+          Buffer.byteLength(
+            chunk,
+            typeof encoding === 'string'
+              ? (encoding as BufferEncoding)
+              : undefined,
+          ),
+        )
+      } else if (chunk instanceof Uint8Array) {
+        bytesSent.inc({ transport: 'http' }, chunk.byteLength)
+      }
+    }
+
+    const write = res.write
+    const end = res.end
+    res.write = function (
+      this: express.Response,
+      ...args: Parameters<typeof write>
+    ) {
+      countChunk(args[0], args[1])
+      return write.apply(this, args)
+    } as typeof res.write
+    res.end = function (
+      this: express.Response,
+      ...args: Parameters<typeof end>
+    ) {
+      if (typeof args[0] !== 'function') countChunk(args[0], args[1])
+      return end.apply(this, args)
+    } as typeof res.end
+
+    next()
+  })
+}
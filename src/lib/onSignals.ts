@@ -2,7 +2,7 @@ import { Logger } from '../types.js'
 
 export interface OnSignalsOptions {
   logger: Logger
-  cleanup?: () => void
+  cleanup?: () => void | Promise<void>
 }
 
 /**
@@ -10,15 +10,15 @@ export interface OnSignalsOptions {
  *
  * @param options Configuration options
  * @param options.logger Logger instance
- * @param options.cleanup Optional cleanup function to be called before exit
+ * @param options.cleanup Optional cleanup function to be called (and awaited) before exit
  */
 export function onSignals(options: OnSignalsOptions): void {
   const { logger, cleanup } = options
 
-  const handleSignal = (signal: string) => {
+  const handleSignal = async (signal: string) => {
     logger.info(`Caught ${signal}. Exiting...`)
     if (cleanup) {
-      cleanup()
+      await cleanup()
     }
     process.exit(0)
   }
@@ -29,10 +29,10 @@ export function onSignals(options: OnSignalsOptions): void {
 
   process.on('SIGHUP', () => handleSignal('SIGHUP'))
 
-  process.stdin.on('close', () => {
+  process.stdin.on('close', async () => {
     logger.info('stdin closed. Exiting...')
     if (cleanup) {
-      cleanup()
+      await cleanup()
     }
     process.exit(0)
   })
@@ -0,0 +1,158 @@
+// Protocol versions that added what clients of older versions can't read
+const AUDIO_CONTENT = '2025-03-26'
+const TOOL_ANNOTATIONS = '2025-03-26'
+const PROGRESS_MESSAGES = '2025-03-26'
+const STRUCTURED_CONTENT = '2025-06-18'
+const RESOURCE_LINKS = '2025-06-18'
+const TITLES = '2025-06-18'
+const NEWEST_FEATURE = '2025-06-18'
+
+const olderThan = (version: string, feature: string) =>
+  version.localeCompare(feature) < 0
+
+/**
+ * The protocol version an initialize response settled on, if it is one.
+ */
+export const negotiatedVersionOf = (response: any): string | undefined => {
+  const version = response?.result?.protocolVersion
+  return typeof version === 'string' ? version : undefined
+}
+
+const downgradeContent = (content: any, index: number, version: string) => {
+  // Embedded resources carry binary data in every version
+  if (content?.type === 'audio' && olderThan(version, AUDIO_CONTENT)) {
+    return {
+      type: 'resource',
+      resource: {
+        uri: `audio:${index}`,
+        mimeType: content.mimeType,
+        blob: content.data,
+      },
+    }
+  }
+
+  if (content?.type === 'resource_link' && olderThan(version, RESOURCE_LINKS)) {
+    return { type: 'text', text: `${content.name}: ${content.uri}` }
+  }
+
+  return content
+}
+
+// Prompt and sampling messages hold one content item, or a list of them
+const downgradeMessages = (messages: any[], version: string) =>
+  messages.map((message) => ({
+    ...message,
+    content: Array.isArray(message.content)
+      ? message.content.map((content: any, index: number) =>
+          downgradeContent(content, index, version),
+        )
+      : downgradeContent(message.content, 0, version),
+  }))
+
+const downgradeTool = (tool: any, version: string) => {
+  const downgraded = { ...tool }
+  if (olderThan(version, TOOL_ANNOTATIONS)) delete downgraded.annotations
+  if (olderThan(version, STRUCTURED_CONTENT)) delete downgraded.outputSchema
+  if (olderThan(version, TITLES)) delete downgraded.title
+  return downgraded
+}
+
+const downgradeToolResult = (result: any, version: string) => {
+  const { structuredContent, ...rest } = result
+  const content = result.content.map((content: any, index: number) =>
+    downgradeContent(content, index, version),
+  )
+  if (
+    structuredContent === undefined ||
+    !olderThan(version, STRUCTURED_CONTENT)
+  ) {
+    return { ...result, content }
+  }
+
+  // Tools should repeat their structured result as text, older clients only
+  // read that
+  return {
+    ...rest,
+    content: result.content.some((item: any) => item?.type === 'text')
+      ? content
+      : [...content, { type: 'text', text: JSON.stringify(structuredContent) }],
+  }
+}
+
+/**
+ * Rewrites a server message for a client that negotiated an older protocol
+ * version than the server speaks: tool annotations, titles and output
+ * schemas, structured tool results, audio content, resource links and
+ * progress messages the client's version doesn't know are dropped or turned
+ * into what it can read. Only the client's version matters, servers of older
+ * versions never send them. Messages for clients of the newest versions, or
+ * that haven't initialized yet, are returned as they are.
+ *
+ * There is no upgrade for clients of newer versions than the server: they
+ * are negotiated down to the server's version on initialize (see
+ * negotiateProtocolVersion), and what later versions add is optional.
+ *
+ * @param message Response, request or notification from the server
+ * @param clientVersion Protocol version the client negotiated
+ */
+export const translateForClient = (
+  message: any,
+  clientVersion: string | undefined,
+) => {
+  if (!clientVersion || !olderThan(clientVersion, NEWEST_FEATURE)) {
+    return message
+  }
+
+  const { result, params } = message ?? {}
+
+  if (Array.isArray(result?.tools)) {
+    return {
+      ...message,
+      result: {
+        ...result,
+        tools: result.tools.map((tool: any) =>
+          downgradeTool(tool, clientVersion),
+        ),
+      },
+    }
+  }
+
+  if (Array.isArray(result?.content)) {
+    return { ...message, result: downgradeToolResult(result, clientVersion) }
+  }
+
+  if (Array.isArray(result?.messages)) {
+    return {
+      ...message,
+      result: {
+        ...result,
+        messages: downgradeMessages(result.messages, clientVersion),
+      },
+    }
+  }
+
+  if (
+    message?.method === 'sampling/createMessage' &&
+    Array.isArray(params?.messages)
+  ) {
+    return {
+      ...message,
+      params: {
+        ...params,
+        messages: downgradeMessages(params.messages, clientVersion),
+      },
+    }
+  }
+
+  if (
+    message?.method === 'notifications/progress' &&
+    params?.message !== undefined &&
+    olderThan(clientVersion, PROGRESS_MESSAGES)
+  ) {
+    const downgraded = { ...params }
+    delete downgraded.message
+    return { ...message, params: downgraded }
+  }
+
+  return message
+}
@@ -0,0 +1,34 @@
+import { closeSync, openSync, writeSync } from 'fs'
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import type { MessageDirection } from '../types.js'
+
+// One line of a recording
+export interface TrafficRecord {
+  time: string
+  direction: MessageDirection
+  // Client session the message belongs to, absent for single-client gateways
+  sessionId?: string
+  transport: string
+  message: JSONRPCMessage
+}
+
+/**
+ * Writes every message crossing the gateway to a JSON Lines file, replacing
+ * the file. Lines are written synchronously so a crash doesn't lose the
+ * messages that led to it.
+ *
+ * @param options.path File to write
+ */
+export const createRecorder = ({ path }: { path: string }) => {
+  const fd = openSync(path, 'w')
+
+  return {
+    record: (record: Omit<TrafficRecord, 'time'>) => {
+      const line: TrafficRecord = { time: new Date().toISOString(), ...record }
+      writeSync(fd, JSON.stringify(line) + '\n')
+    },
+    close: () => closeSync(fd),
+  }
+}
+
+export type Recorder = ReturnType<typeof createRecorder>
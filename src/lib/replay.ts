@@ -0,0 +1,261 @@
+import { readFileSync } from 'fs'
+import type { RequestId } from '@modelcontextprotocol/sdk/types.js'
+import { Logger } from '../types.js'
+import { spawnChild } from './spawnChild.js'
+import type { TrafficRecord } from './recorder.js'
+
+export interface ReplayOptions {
+  file: string
+  stdioCmd: string
+  logger: Logger
+  timeout: number
+  // Prints a line of the report
+  report: (line: string) => void
+}
+
+export interface ReplayResult {
+  matched: number
+  differed: number
+  missing: number
+}
+
+/**
+ * Reads a recording written by --record.
+ *
+ * @throws Error naming the first invalid line
+ */
+export const readRecording = (file: string): TrafficRecord[] =>
+  readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .flatMap((line, index) => {
+      if (!line.trim()) return []
+
+      const invalid = (reason: string) =>
+        new Error(`Invalid recording ${file}, line ${index + 1}: ${reason}`)
+
+      let record
+      try {
+        record = JSON.parse(line)
+      } catch (error) {
+        throw invalid((error as Error).message)
+      }
+
+      if (
+        record?.direction !== 'client-to-server' &&
+        record?.direction !== 'server-to-client'
+      ) {
+        throw invalid('direction must be client-to-server or server-to-client')
+      }
+      if (!record.message || typeof record.message !== 'object') {
+        throw invalid('message must be a JSON-RPC message')
+      }
+
+      return [record as TrafficRecord]
+    })
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+const show = (value: unknown) =>
+  value === undefined ? '(missing)' : JSON.stringify(value)
+
+// One line per differing leaf, e.g. "result.content[0].text: recorded "a", replayed "b""
+const diffJson = (
+  recorded: unknown,
+  replayed: unknown,
+  path = '',
+): string[] => {
+  if (
+    isObject(recorded) &&
+    isObject(replayed) &&
+    Array.isArray(recorded) === Array.isArray(replayed)
+  ) {
+    const keys = new Set([...Object.keys(recorded), ...Object.keys(replayed)])
+    return [...keys].flatMap((key) =>
+      diffJson(
+        recorded[key],
+        replayed[key],
+        Array.isArray(recorded)
+          ? `${path}[${key}]`
+          : path
+            ? `${path}.${key}`
+            : key,
+      ),
+    )
+  }
+
+  return JSON.stringify(recorded) === JSON.stringify(replayed)
+    ? []
+    : [`${path}: recorded ${show(recorded)}, replayed ${show(replayed)}`]
+}
+
+// Replays the client side of one session against a fresh child
+const replaySession = async ({
+  records,
+  stdioCmd,
+  logger,
+  timeout,
+  report,
+}: Omit<ReplayOptions, 'file'> & { records: TrafficRecord[] }) => {
+  const result: ReplayResult = { matched: 0, differed: 0, missing: 0 }
+
+  // What the child sent that the replay hasn't looked at yet
+  const responses = new Map<RequestId, any>()
+  const childRequests: any[] = []
+  let exited = false
+  let wake = () => {}
+
+  const child = spawnChild({
+    stdioCmd,
+    logger,
+    onMessage: (message) => {
+      if (message.id !== undefined && message.method === undefined) {
+        responses.set(message.id, message)
+      } else if (message.id !== undefined) {
+        childRequests.push(message)
+      }
+      wake()
+    },
+  })
+  child.on('exit', () => {
+    exited = true
+    wake()
+  })
+
+  const write = (message: unknown) => {
+    if (!exited) child.stdin.write(JSON.stringify(message) + '\n')
+  }
+
+  // Resolves with what `find` finds, or undefined after the timeout or when
+  // the child exits
+  const waitFor = <T>(find: () => T | undefined) =>
+    new Promise<T | undefined>((resolve) => {
+      const finish = (value: T | undefined) => {
+        clearTimeout(timer)
+        wake = () => {}
+        resolve(value)
+      }
+      const timer = setTimeout(() => finish(undefined), timeout)
+      wake = () => {
+        const found = find()
+        if (found !== undefined || exited) finish(found)
+      }
+      wake()
+    })
+
+  // Requests written to the child, by ID, whose recorded answer is still ahead
+  const sent = new Map<RequestId, string>()
+  // Requests the recorded server sent to the client, by their recorded ID
+  const serverRequests = new Map<RequestId, string>()
+
+  for (const record of records) {
+    const message: any = record.message
+    const isRequest = message.id !== undefined && message.method !== undefined
+    const isResponse = message.id !== undefined && message.method === undefined
+
+    if (record.direction === 'client-to-server') {
+      // The fresh child may use other IDs for its own requests, so answers
+      // go to its next request with the same method
+      if (isResponse && serverRequests.has(message.id)) {
+        const method = serverRequests.get(message.id)
+        serverRequests.delete(message.id)
+
+        const request = await waitFor(() => {
+          const index = childRequests.findIndex(
+            (candidate) => candidate.method === method,
+          )
+          return index === -1 ? undefined : childRequests.splice(index, 1)[0]
+        })
+        if (!request) {
+          report(`  ✗ the server did not send the ${method} request`)
+          continue
+        }
+        write({ ...message, id: request.id })
+        continue
+      }
+
+      if (isRequest) sent.set(message.id, message.method)
+      write(message)
+      continue
+    }
+
+    if (isRequest) {
+      serverRequests.set(message.id, message.method)
+      continue
+    }
+
+    // Server notifications and answers to other sessions' requests aren't compared
+    if (!isResponse || !sent.has(message.id)) continue
+
+    const method = sent.get(message.id)
+    sent.delete(message.id)
+
+    const replayed = await waitFor(() => responses.get(message.id))
+    responses.delete(message.id)
+
+    if (!replayed) {
+      result.missing++
+      report(
+        `  ✗ ${method} (id ${message.id}): no response within ${timeout}ms`,
+      )
+      continue
+    }
+
+    const differences = diffJson(message, replayed)
+    if (!differences.length) {
+      result.matched++
+      continue
+    }
+
+    result.differed++
+    report(`  ✗ ${method} (id ${message.id}) differs:`)
+    for (const difference of differences) {
+      report(`      ${difference}`)
+    }
+  }
+
+  child.kill()
+  return result
+}
+
+/**
+ * Replays the client side of a recording against fresh children, one per
+ * recorded session, and reports the responses that differ from the recorded
+ * ones. Requests are sent in the recorded order, and the replay waits for
+ * each response at the point where the recorded client got it.
+ *
+ * @param options Configuration options
+ * @param options.file Recording written by --record
+ * @param options.stdioCmd Shell command that starts the MCP server
+ * @param options.logger Logger instance
+ * @param options.timeout Time to wait for each response in ms
+ * @param options.report Prints a line of the report
+ */
+export async function replay(options: ReplayOptions): Promise<ReplayResult> {
+  const { file, report } = options
+
+  const sessions = new Map<string, TrafficRecord[]>()
+  for (const record of readRecording(file)) {
+    const key = record.sessionId ?? ''
+    const records = sessions.get(key) ?? []
+    records.push(record)
+    sessions.set(key, records)
+  }
+
+  const total: ReplayResult = { matched: 0, differed: 0, missing: 0 }
+  for (const [sessionId, records] of sessions) {
+    report(
+      `${sessionId ? `Session ${sessionId}` : 'Recording'} (${records.length} messages, ${records[0].transport})`,
+    )
+
+    const result = await replaySession({ ...options, records })
+    total.matched += result.matched
+    total.differed += result.differed
+    total.missing += result.missing
+  }
+
+  report(
+    `Replayed ${total.matched + total.differed + total.missing} responses: ${total.matched} matched, ${total.differed} differed, ${total.missing} missing`,
+  )
+  return total
+}
@@ -0,0 +1,144 @@
+import type {
+  JSONRPCMessage,
+  JSONRPCNotification,
+  JSONRPCRequest,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js'
+
+export interface MultiplexedRequest<T> {
+  sessionId: string
+  originalId: RequestId
+  method: string
+  context: T
+}
+
+/**
+ * Rewrites request IDs from many sessions into gateway-unique IDs so that
+ * several clients can share one child, and maps the child's responses back.
+ *
+ * The original ID is kept as-is, so a client that sent `id: 1` gets `id: 1`
+ * back and a client that sent `id: "1"` gets `id: "1"`.
+ */
+export const createRequestIdMultiplexer = <T>() => {
+  let lastId = 0
+  const inFlight = new Map<number, MultiplexedRequest<T>>()
+
+  const outbound = ({
+    sessionId,
+    request,
+    context,
+  }: {
+    sessionId: string
+    request: JSONRPCRequest
+    context: T
+  }): JSONRPCRequest => {
+    const id = ++lastId
+    inFlight.set(id, {
+      sessionId,
+      originalId: request.id,
+      method: request.method,
+      context,
+    })
+    return { ...request, id }
+  }
+
+  // Restore the original ID of a response, optionally only if it belongs to the given session
+  const inbound = (
+    response: JSONRPCMessage,
+    sessionId?: string,
+  ): (MultiplexedRequest<T> & { message: JSONRPCMessage }) | undefined => {
+    if (!('id' in response) || typeof response.id !== 'number') {
+      return undefined
+    }
+
+    const entry = inFlight.get(response.id)
+    if (!entry) return undefined
+    if (sessionId !== undefined && entry.sessionId !== sessionId) {
+      return undefined
+    }
+
+    inFlight.delete(response.id)
+    return { ...entry, message: { ...response, id: entry.originalId } }
+  }
+
+  // Stop tracking a request, e.g. after it timed out
+  const forget = (id: RequestId) => {
+    if (typeof id !== 'number') return undefined
+
+    const entry = inFlight.get(id)
+    inFlight.delete(id)
+    return entry
+  }
+
+  // The most recently sent request still waiting for an answer
+  const latest = (predicate: (entry: MultiplexedRequest<T>) => boolean) =>
+    [...inFlight.values()].reverse().find(predicate)
+
+  // Like latest, but only while every waiting request the predicate matches
+  // comes from the same session
+  const soleOrigin = (predicate: (entry: MultiplexedRequest<T>) => boolean) => {
+    const matching = [...inFlight.values()].filter(predicate)
+    const origin = matching.at(-1)
+    return matching.every((entry) => entry.sessionId === origin?.sessionId)
+      ? origin
+      : undefined
+  }
+
+  // Stop tracking every matching request, e.g. after the child that was answering them exited
+  const dropWhere = (predicate: (entry: MultiplexedRequest<T>) => boolean) => {
+    const dropped: (MultiplexedRequest<T> & { id: number })[] = []
+    for (const [id, entry] of inFlight) {
+      if (predicate(entry)) {
+        inFlight.delete(id)
+        dropped.push({ ...entry, id })
+      }
+    }
+    return dropped
+  }
+
+  // Stop tracking every request of a session, e.g. after it was deleted
+  const dropSession = (sessionId: string) =>
+    dropWhere((entry) => entry.sessionId === sessionId)
+
+  // Stop tracking the request a session's notifications/cancelled names by
+  // its original ID, and point the notification at the rewritten ID
+  const cancel = (
+    sessionId: string,
+    notification: JSONRPCNotification,
+  ):
+    | (MultiplexedRequest<T> & { id: number; message: JSONRPCNotification })
+    | undefined => {
+    const requestId = notification.params?.requestId
+    const [entry] = dropWhere(
+      (entry) =>
+        entry.sessionId === sessionId && entry.originalId === requestId,
+    )
+    if (!entry) return undefined
+
+    return {
+      ...entry,
+      message: {
+        ...notification,
+        params: { ...notification.params, requestId: entry.id },
+      },
+    }
+  }
+
+  return {
+    outbound,
+    inbound,
+    forget,
+    latest,
+    soleOrigin,
+    dropWhere,
+    dropSession,
+    cancel,
+    get size() {
+      return inFlight.size
+    },
+  }
+}
+
+export type RequestIdMultiplexer<T> = ReturnType<
+  typeof createRequestIdMultiplexer<T>
+>
@@ -0,0 +1,22 @@
+import type express from 'express'
+
+/**
+ * Answers a health check with "ok", or with the status and the given details
+ * as JSON for clients that ask for JSON.
+ */
+export const sendHealth = ({
+  req,
+  res,
+  details,
+}: {
+  req: express.Request
+  res: express.Response
+  details: Record<string, unknown>
+}) => {
+  if (req.accepts(['text', 'json']) === 'json') {
+    res.json({ status: 'ok', ...details })
+    return
+  }
+
+  res.send('ok')
+}
@@ -0,0 +1,50 @@
+import { Logger } from '../types.js'
+
+export interface NamedServer {
+  name: string
+  stdioCmd: string
+}
+
+/**
+ * Parses `--server name="command"` values. Names become path prefixes, so
+ * they are limited to letters, digits, "-" and "_" and must be unique.
+ *
+ * @throws Error describing the first invalid value
+ */
+export const parseServers = (
+  argvServer: (string | number)[],
+): NamedServer[] => {
+  const servers: NamedServer[] = []
+
+  for (const rawServer of argvServer) {
+    const server = `${rawServer}`
+
+    const equalsIndex = server.indexOf('=')
+    const name = equalsIndex === -1 ? '' : server.slice(0, equalsIndex).trim()
+    const stdioCmd = server.slice(equalsIndex + 1).trim()
+
+    if (!name || !stdioCmd) {
+      throw new Error(
+        `Invalid server format: ${server}, expected name="command"`,
+      )
+    }
+
+    if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+      throw new Error(
+        `Invalid server name: ${name}, use letters, digits, "-" and "_"`,
+      )
+    }
+
+    if (servers.some((existing) => existing.name === name)) {
+      throw new Error(`Duplicate server name: ${name}`)
+    }
+
+    servers.push({ name, stdioCmd })
+  }
+
+  return servers
+}
+
+// Tag every log line with the server it is about
+export const serverLogger = (logger: Logger, name: string): Logger =>
+  logger.withFields({ server: name })
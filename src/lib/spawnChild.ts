@@ -0,0 +1,64 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process'
+import { Logger } from '../types.js'
+import { childStderrLines } from './metrics.js'
+
+export interface SpawnChildOptions {
+  stdioCmd: string
+  logger: Logger
+  onMessage: (message: any) => void
+}
+
+/**
+ * Spawns an MCP stdio server and parses its stdout as newline-delimited JSON,
+ * splitting JSON-RPC batches into their messages.
+ *
+ * @param options Configuration options
+ * @param options.stdioCmd Shell command that starts the server
+ * @param options.logger Logger instance
+ * @param options.onMessage Called with every JSON message the child writes
+ */
+export function spawnChild(
+  options: SpawnChildOptions,
+): ChildProcessWithoutNullStreams {
+  const { stdioCmd, logger, onMessage } = options
+
+  const child: ChildProcessWithoutNullStreams = spawn(stdioCmd, { shell: true })
+
+  let buffer = ''
+  child.stdout.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+
+    // Process complete lines only, keeping incomplete lines in the buffer
+    const lines = buffer.split(/\r?\n/)
+    buffer = lines.pop() ?? ''
+
+    for (const line of lines) {
+      if (!line.trim()) continue
+
+      let jsonMsg
+      try {
+        jsonMsg = JSON.parse(line)
+      } catch (error) {
+        logger.error(`Child non-JSON: ${line}, Error: ${String(error)}`)
+        continue
+      }
+
+      // Batches are passed on one message at a time, clients of newer
+      // protocol versions don't take them
+      for (const message of Array.isArray(jsonMsg) ? jsonMsg : [jsonMsg]) {
+        onMessage(message)
+      }
+    }
+  })
+
+  child.stderr.on('data', (chunk: Buffer) => {
+    const text = chunk.toString('utf8')
+    childStderrLines.inc(
+      {},
+      text.split(/\r?\n/).filter((line) => line.trim()).length,
+    )
+    logger.error(`Child stderr: ${text}`)
+  })
+
+  return child
+}
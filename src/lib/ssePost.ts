@@ -0,0 +1,41 @@
+import type express from 'express'
+import type { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * Hands the JSON body of a POST to an SSE transport. The transport takes one
+ * message per POST, so the messages of a JSON-RPC batch are handed over one
+ * at a time, which also keeps batches from children of protocol versions
+ * without them.
+ *
+ * @param options.transport SSE transport of the client's session
+ * @param options.req POST request, with its body parsed
+ * @param options.res Response, answered with 202 once the messages are handed over
+ */
+export const handleSsePost = async ({
+  transport,
+  req,
+  res,
+}: {
+  transport: SSEServerTransport
+  req: express.Request
+  res: express.Response
+}) => {
+  if (!Array.isArray(req.body)) {
+    return transport.handlePostMessage(req, res, req.body)
+  }
+
+  // Nothing of an invalid batch is handed over
+  if (
+    !req.body.length ||
+    req.body.some((message) => !JSONRPCMessageSchema.safeParse(message).success)
+  ) {
+    res.status(400).send(`Invalid message: ${JSON.stringify(req.body)}`)
+    return
+  }
+
+  for (const message of req.body) {
+    await transport.handleMessage(message)
+  }
+  res.status(202).send('Accepted')
+}
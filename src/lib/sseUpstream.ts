@@ -0,0 +1,90 @@
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { Logger, Upstream } from '../types.js'
+import { createRequestTracker } from './metrics.js'
+
+export interface SseUpstreamOptions {
+  sseUrl: string
+  headers: Record<string, string>
+  logger: Logger
+  onMessage: (message: any) => void
+  onClose: () => void
+}
+
+/**
+ * Opens a connection to a remote MCP server over SSE and exposes it as an
+ * upstream. Messages sent before the connection is up are queued.
+ *
+ * @param options Configuration options
+ * @param options.sseUrl URL of the remote server's SSE endpoint
+ * @param options.headers Headers sent with the SSE request and every POST
+ * @param options.logger Logger instance
+ * @param options.onMessage Called with every message the server sends
+ * @param options.onClose Called once when the connection is closed or fails
+ */
+export function createSseUpstream(options: SseUpstreamOptions): Upstream {
+  const { sseUrl, headers, logger, onMessage, onClose } = options
+
+  const transport = new SSEClientTransport(new URL(sseUrl), {
+    eventSourceInit: {
+      fetch: (...props: Parameters<typeof fetch>) => {
+        const [url, init = {}] = props
+        return fetch(url, { ...init, headers: { ...init.headers, ...headers } })
+      },
+    },
+    requestInit: {
+      headers,
+    },
+  })
+
+  const requests = createRequestTracker()
+
+  let closed = false
+  const close = () => {
+    if (closed) return
+    closed = true
+    requests.abandon()
+    onClose()
+  }
+
+  transport.onmessage = (message) => {
+    requests.received(message)
+    onMessage(message)
+  }
+  transport.onerror = (err) => {
+    logger.error('SSE error:', err)
+  }
+  transport.onclose = () => {
+    logger.info(`SSE connection to ${sseUrl} closed`)
+    close()
+  }
+
+  const ready = transport.start().then(
+    () => true,
+    (err) => {
+      logger.error(`Failed to connect to ${sseUrl}:`, err)
+      close()
+      return false
+    },
+  )
+
+  return {
+    send: (message) => {
+      ready
+        .then((connected) => {
+          if (!connected) return
+          requests.sent(message)
+          return transport.send(message)
+        })
+        .catch((err) => {
+          if (!closed) logger.error('Failed to send to SSE:', err)
+        })
+    },
+    close: () => {
+      closed = true
+      requests.abandon()
+      transport.close().catch((err) => {
+        logger.error('Failed to close SSE connection:', err)
+      })
+    },
+  }
+}
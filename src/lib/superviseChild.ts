@@ -0,0 +1,246 @@
+import { ChildProcessWithoutNullStreams } from 'child_process'
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import { Logger } from '../types.js'
+import { spawnChild } from './spawnChild.js'
+import {
+  createMessageFilter,
+  hasFilterRules,
+  type FilterRules,
+} from './messageFilter.js'
+import { childRestarts, createRequestTracker } from './metrics.js'
+
+export interface SuperviseChildOptions {
+  stdioCmd: string
+  logger: Logger
+  onMessage: (message: any) => void
+  maxRestarts: number
+  restartWindow: number
+  onExit?: () => void
+  onRestart?: (
+    write: (message: JSONRPCMessage) => void,
+  ) => void | Promise<unknown>
+  handshakeTimeout?: number
+  onGiveUp: (code: number | null) => void
+  filter?: FilterRules
+}
+
+// Error for requests the child was working on when it exited
+export const CHILD_EXITED_ERROR = {
+  code: -32603,
+  message: 'MCP server exited before answering, it is being restarted',
+}
+
+// Error for requests to a child that exited too often to be restarted again
+export const CHILD_GAVE_UP_ERROR = {
+  code: -32603,
+  message: 'MCP server exited too often and is not restarted anymore',
+}
+
+const INITIAL_BACKOFF = 1000
+const MAX_BACKOFF = 30000
+const HANDSHAKE_TIMEOUT = 30000
+
+/**
+ * Spawns an MCP stdio server and restarts it with exponential backoff when it
+ * exits. Gives up after `maxRestarts` restarts within `restartWindow` ms and
+ * calls `onGiveUp`, requests written after that are answered with an error.
+ * Messages written while the child is down are queued, and held after a
+ * restart until the promise `onRestart` returns settles, so the new child
+ * finishes its handshake first. A child that doesn't finish it within
+ * `handshakeTimeout` ms is killed, which counts as one more restart.
+ *
+ * @param options Configuration options
+ * @param options.stdioCmd Shell command that starts the server
+ * @param options.logger Logger instance
+ * @param options.onMessage Called with every JSON message the child writes
+ * @param options.maxRestarts Restarts allowed within the window, 0 disables restarts
+ * @param options.restartWindow Window for counting restarts in ms
+ * @param options.onExit Called when the child exited, before it is restarted or given up on
+ * @param options.onRestart Called after the new child was spawned with a function writing straight to it, before queued messages are written
+ * @param options.handshakeTimeout Time the promise `onRestart` returns may take in ms
+ * @param options.onGiveUp Called with the exit code when the child won't be restarted anymore
+ * @param options.filter Tools, resources and prompts hidden from clients
+ */
+export function superviseChild(options: SuperviseChildOptions) {
+  const {
+    stdioCmd,
+    logger,
+    onMessage,
+    maxRestarts,
+    restartWindow,
+    onExit,
+    onRestart,
+    handshakeTimeout = HANDSHAKE_TIMEOUT,
+    onGiveUp,
+    filter,
+  } = options
+
+  const messageFilter =
+    filter && hasFilterRules(filter) ? createMessageFilter(filter) : undefined
+
+  let child: ChildProcessWithoutNullStreams
+  let running = false
+  let stopped = false
+  let gaveUp = false
+  let restarts = 0
+  let restartTimes: number[] = []
+  let restartTimer: NodeJS.Timeout | undefined
+  let handshakeTimer: NodeJS.Timeout | undefined
+  // Whether a restarted child is still doing its handshake
+  let handshaking = false
+  const queue: JSONRPCMessage[] = []
+  const requests = createRequestTracker()
+
+  const write = (message: JSONRPCMessage) => {
+    // Requests for hidden items are answered as if by the child, after the
+    // caller is done sending
+    const rejection = messageFilter?.toChild(message)
+    if (rejection) {
+      setImmediate(() => onMessage(rejection))
+      return
+    }
+
+    if (gaveUp) {
+      if ('method' in message && 'id' in message) {
+        const { id } = message
+        setImmediate(() =>
+          onMessage({ jsonrpc: '2.0', id, error: CHILD_GAVE_UP_ERROR }),
+        )
+      }
+      return
+    }
+
+    if (!running || handshaking) {
+      queue.push(message)
+      return
+    }
+
+    writeNow(message)
+  }
+
+  const writeNow = (message: JSONRPCMessage) => {
+    requests.sent(message)
+    child.stdin.write(JSON.stringify(message) + '\n')
+  }
+
+  // Hold the queue until the restarted child finished its handshake, killing
+  // it when that takes too long
+  const handshake = () => {
+    const restarted = child
+    handshaking = true
+
+    const timeout = new Promise<boolean>((resolve) => {
+      handshakeTimer = setTimeout(() => resolve(true), handshakeTimeout)
+    })
+    const done = Promise.resolve(onRestart?.(writeNow)).then(
+      () => false,
+      () => false,
+    )
+
+    Promise.race([done, timeout]).then((timedOut) => {
+      clearTimeout(handshakeTimer)
+      // The child exited while doing its handshake
+      if (child !== restarted || !running) return
+
+      if (timedOut) {
+        logger.error(
+          `Child did not finish its handshake within ${handshakeTimeout}ms, restarting it`,
+        )
+        child.kill('SIGKILL')
+        return
+      }
+
+      handshaking = false
+      for (const message of queue.splice(0)) {
+        write(message)
+      }
+    })
+  }
+
+  const start = () => {
+    child = spawnChild({
+      stdioCmd,
+      logger,
+      onMessage: (message) => {
+        requests.received(message)
+        const filtered = messageFilter
+          ? messageFilter.fromChild(message)
+          : message
+        if (filtered) onMessage(filtered)
+      },
+    })
+    running = true
+
+    child.on('exit', (code, signal) => {
+      running = false
+      clearTimeout(handshakeTimer)
+      if (stopped) return
+
+      logger.error(`Child exited: code=${code}, signal=${signal}`)
+
+      requests.abandon()
+      onExit?.()
+
+      const now = Date.now()
+      restartTimes = restartTimes.filter((time) => now - time < restartWindow)
+      if (restartTimes.length >= maxRestarts) {
+        if (maxRestarts > 0) {
+          logger.error(
+            `Child restarted ${restartTimes.length} times within ${restartWindow}ms, giving up`,
+          )
+        }
+        gaveUp = true
+        for (const message of queue.splice(0)) {
+          write(message)
+        }
+        onGiveUp(code)
+        return
+      }
+
+      const delay = Math.min(
+        INITIAL_BACKOFF * 2 ** restartTimes.length,
+        MAX_BACKOFF,
+      )
+      restartTimes.push(now)
+      logger.info(`Restarting child in ${delay}ms`)
+
+      restartTimer = setTimeout(() => {
+        restarts++
+        childRestarts.inc()
+        start()
+        logger.info(`Child restarted (${restarts} restarts so far)`)
+        handshake()
+      }, delay)
+    })
+  }
+
+  start()
+
+  return {
+    write,
+    kill: () => {
+      stopped = true
+      clearTimeout(restartTimer)
+      clearTimeout(handshakeTimer)
+      child.kill()
+    },
+    // Kill the current child, it is restarted as after a crash
+    restart: () => {
+      child.kill('SIGKILL')
+    },
+    get child() {
+      return child
+    },
+    get running() {
+      return running
+    },
+    get restarts() {
+      return restarts
+    },
+    get gaveUp() {
+      return gaveUp
+    },
+  }
+}
+
+export type SupervisedChild = ReturnType<typeof superviseChild>
@@ -0,0 +1,1375 @@
+import express from 'express'
+import bodyParser from 'body-parser'
+import {
+  JSONRPCRequest,
+  ProgressToken,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js'
+import { v4 as uuidv4 } from 'uuid'
+import { LogFields, Logger, MessageDirection, Upstream } from '../types.js'
+import { createRequestIdMultiplexer } from '../lib/requestIdMultiplexer.js'
+import {
+  InitializeCache,
+  KNOWN_PROTOCOL_VERSIONS,
+} from '../lib/initializeCache.js'
+import { logMessage } from '../lib/logger.js'
+import type { Recorder } from '../lib/recorder.js'
+import { createEventStore, type EventStore } from '../lib/eventStore.js'
+import {
+  negotiatedVersionOf,
+  translateForClient,
+} from '../lib/protocolTranslation.js'
+import {
+  connectionsOpen,
+  requestTimeouts,
+  sessionsActive,
+  sessionsExpired,
+} from '../lib/metrics.js'
+
+export interface HttpStreamServerOptions {
+  app: express.Express
+  endpoint: string
+  logger: Logger
+  headers: Record<string, string>
+  responseMode: 'auto' | 'batch' | 'stream'
+  batchTimeout: number
+  sessionHeaderName: string
+  // Every session talks to this upstream...
+  sharedUpstream?: Upstream
+  // ...or each session gets its own
+  createSessionUpstream?: (session: {
+    sessionId: string
+    onMessage: (message: any) => void
+    onClose: () => void
+  }) => Upstream
+  maxUpstreams?: number
+  upstreamIdleTimeout?: number
+  // Sessions without requests or open streams for this many ms are ended,
+  // 0 keeps them until the client sends DELETE
+  sessionIdleTimeout?: number
+  // Most open sessions, 0 for no limit
+  maxSessions?: number
+  // Answers initialize for the shared upstream, which was initialized once
+  initializeCache?: InitializeCache
+  // Records the messages exchanged with clients
+  recorder?: Recorder
+  // Returns the error for a client message the request may not send, e.g. a
+  // tool its API key doesn't allow, which fails the whole POST with 403
+  checkMessage?: (
+    req: express.Request,
+    message: unknown,
+  ) => { code: number; message: string } | undefined
+  // Log fields identifying the client of a new session, e.g. its token subject
+  sessionLogFields?: (req: express.Request) => LogFields
+  // Keeps SSE events for clients resuming a stream, in memory with the
+  // default bounds when absent
+  eventStore?: EventStore
+}
+
+interface Session {
+  upstream: Upstream
+  // Logs with the session's client fields
+  logger: Logger
+  // Open GET streams
+  responses: Map<string, express.Response>
+  // Stream the GET requests share, created by the first one
+  standaloneStreamId?: string
+  // Every stream of the session, whose events are dropped with it
+  streamIds: Set<string>
+  // Stream mode POSTs still waiting for answers, by stream
+  pendingStreams: Map<string, PendingResponse>
+  idleTimer?: NodeJS.Timeout
+  // Last request of the client, in ms
+  lastActivity: number
+  // Protocol version the upstream answered initialize with
+  protocolVersion?: string
+}
+
+// The HTTP response of a POST waiting for the upstream to answer its requests
+interface PendingResponse {
+  res: express.Response
+  mode: 'batch' | 'stream'
+  // Whether the POST body was a JSON-RPC batch array
+  isBatch: boolean
+  // Gateway-unique IDs still waiting for an answer, with the client's IDs
+  inFlight: Map<number, RequestId>
+  // Answers collected so far for a batch in batch mode
+  results: object[]
+  timer?: NodeJS.Timeout
+  // When the POST arrived, in ms
+  startedAt: number
+  // SSE stream of the answers in stream mode
+  streamId?: string
+}
+
+const setResponseHeaders = ({
+  res,
+  headers,
+}: {
+  res: express.Response
+  headers: Record<string, string>
+}) =>
+  Object.entries(headers).forEach(([key, value]) => {
+    res.setHeader(key, value)
+  })
+
+// Clients name the protocol version they negotiated on every request after
+// initialize
+const PROTOCOL_VERSION_HEADER = 'MCP-Protocol-Version'
+
+// Since 2025-03-26 clients must accept both JSON and SSE answers to a POST,
+// and 2025-06-18 dropped JSON-RPC batches
+const requiresJsonAndSse = (version: string | undefined) =>
+  version !== undefined && version.localeCompare('2025-03-26') >= 0
+const allowsBatches = (version: string | undefined) =>
+  version === undefined || version.localeCompare('2025-06-18') < 0
+
+// Whether an Accept header allows a media type, wildcards included. Clients
+// without an Accept header take anything
+const accepts = (accept: string | undefined, type: string) => {
+  if (!accept) return true
+
+  const [major] = type.split('/')
+  return accept.split(',').some((range) => {
+    const [mediaRange, ...params] = range
+      .split(';')
+      .map((part) => part.trim().toLowerCase())
+    const quality = params.find((param) => param.startsWith('q='))
+    if (quality && !(Number(quality.slice(2)) > 0)) return false
+    return [type, `${major}/*`, '*/*'].includes(mediaRange)
+  })
+}
+
+// Stream IDs start with the ID of their session, which tells whose a stored
+// stream was after a restart
+const newStreamId = (sessionId: string) => `${sessionId}.${uuidv4()}`
+const isStreamOf = (streamId: string, sessionId: string) =>
+  streamId.startsWith(`${sessionId}.`)
+
+const progressTokenOf = (message: any) => message.params?._meta?.progressToken
+
+// How to answer a POST in auto mode: requests that want progress get an SSE
+// stream to carry it, everything else plain JSON, unless the client only
+// takes the other one. Undefined when the client takes neither
+const negotiateMode = ({
+  json,
+  sse,
+  messages,
+}: {
+  json: boolean
+  sse: boolean
+  messages: any[]
+}): PendingResponse['mode'] | undefined => {
+  if (!json) return sse ? 'stream' : undefined
+  if (!sse) return 'batch'
+
+  const wantsProgress = messages.some(
+    (message) =>
+      message.id !== undefined &&
+      message.method !== undefined &&
+      progressTokenOf(message) !== undefined,
+  )
+  return wantsProgress ? 'stream' : 'batch'
+}
+
+/**
+ * Serves the HTTP Stream transport on `endpoint`, bridging client sessions to
+ * an upstream MCP server that is either shared or created per session.
+ */
+export const createHttpStreamServer = (options: HttpStreamServerOptions) => {
+  const {
+    app,
+    endpoint,
+    logger,
+    headers,
+    responseMode,
+    batchTimeout,
+    sessionHeaderName,
+    sharedUpstream,
+    createSessionUpstream,
+    maxUpstreams = Infinity,
+    upstreamIdleTimeout = 0,
+    sessionIdleTimeout = 0,
+    maxSessions = 0,
+    initializeCache,
+    recorder,
+    checkMessage,
+    sessionLogFields,
+    eventStore = createEventStore({ logger }),
+  } = options
+
+  // Sessions store
+  const sessions: Record<string, Session> = {}
+
+  // Request IDs from all sessions are rewritten before they reach the upstream
+  const mux = createRequestIdMultiplexer<PendingResponse>()
+
+  // Requests the upstream sends to a client are rewritten the same way, so
+  // the client's answer can be matched to the upstream that asked
+  const serverRequests = createRequestIdMultiplexer<Upstream>()
+
+  // Requests waiting for an answer that asked for progress, by gateway ID,
+  // which the upstream gets as their progress token
+  const progressTokens = new Map<
+    number,
+    {
+      sessionId: string
+      pending: PendingResponse
+      progressToken: ProgressToken
+    }
+  >()
+
+  // Tear down a session, and its upstream when it has its own. Its stored
+  // events stay on shutdown, so a file-backed store can resume the streams
+  const destroySession = (sessionId: string, { keepEvents = false } = {}) => {
+    const session = sessions[sessionId]
+    if (!session) return
+
+    delete sessions[sessionId]
+    if (!keepEvents) eventStore.dropStreams(session.streamIds)
+    clearTimeout(session.idleTimer)
+    sessionsActive.dec({ transport: 'http-stream' })
+
+    // Close all open responses
+    for (const [, response] of session.responses) {
+      response.end()
+    }
+    for (const { context } of mux.dropSession(sessionId)) {
+      clearTimeout(context.timer)
+      context.res.end()
+    }
+    for (const [gatewayId, entry] of progressTokens) {
+      if (entry.sessionId === sessionId) progressTokens.delete(gatewayId)
+    }
+
+    // Don't leave the shared upstream waiting for answers that will never come
+    for (const { originalId, method } of serverRequests.dropSession(
+      sessionId,
+    )) {
+      if (session.upstream !== sharedUpstream) continue
+      sharedUpstream.send(
+        {
+          jsonrpc: '2.0',
+          id: originalId,
+          error: {
+            code: -32603,
+            message: `Session ended before answering ${method}`,
+          },
+        },
+        { sessionId },
+      )
+    }
+
+    if (session.upstream !== sharedUpstream) {
+      session.upstream.close()
+    } else {
+      sharedUpstream.closeSession?.(sessionId)
+    }
+  }
+
+  // Expire idle sessions that own an upstream so they don't pile up
+  const touchSession = (sessionId: string) => {
+    const session = sessions[sessionId]
+    if (session) session.lastActivity = Date.now()
+    if (
+      !session ||
+      session.upstream === sharedUpstream ||
+      upstreamIdleTimeout <= 0
+    ) {
+      return
+    }
+
+    clearTimeout(session.idleTimer)
+    session.idleTimer = setTimeout(() => {
+      if (sessions[sessionId] !== session) return
+
+      // Open SSE streams keep the session alive
+      const hasOpenStream = [...session.responses.values()].some(
+        (response) => !response.writableEnded,
+      )
+      if (hasOpenStream) {
+        touchSession(sessionId)
+        return
+      }
+
+      logger.info(
+        `Session ${sessionId} idle for ${upstreamIdleTimeout}ms, stopping its upstream`,
+      )
+      destroySession(sessionId)
+    }, upstreamIdleTimeout)
+  }
+
+  // Open GET streams and unanswered requests keep a session alive
+  const isBusy = (sessionId: string) =>
+    [...sessions[sessionId].responses.values()].some(
+      (response) => !response.writableEnded,
+    ) || mux.latest((entry) => entry.sessionId === sessionId) !== undefined
+
+  // End the sessions idle for sessionIdleTimeout, checking a few times per
+  // timeout. Their clients get 404 and initialize a new session
+  const sweepInterval = Math.min(Math.max(sessionIdleTimeout / 4, 1000), 60_000)
+  const sweepSessions = () => {
+    const now = Date.now()
+    for (const [sessionId, session] of Object.entries(sessions)) {
+      if (isBusy(sessionId)) {
+        session.lastActivity = now
+        continue
+      }
+      if (now - session.lastActivity < sessionIdleTimeout) continue
+
+      session.logger.info(
+        `Session ${sessionId} expired after ${sessionIdleTimeout}ms idle`,
+      )
+      sessionsExpired.inc({ transport: 'http-stream' })
+      destroySession(sessionId)
+    }
+  }
+  const sweeper =
+    sessionIdleTimeout > 0
+      ? setInterval(sweepSessions, sweepInterval).unref()
+      : undefined
+
+  // Full gateways ask clients to come back once the sweeper may have made room
+  const refuseSession = (res: express.Response, reason: string) => {
+    logger.error(`Refusing new session: ${reason}`)
+    res.setHeader(
+      'Retry-After',
+      String(sessionIdleTimeout > 0 ? Math.ceil(sweepInterval / 1000) : 60),
+    )
+    res.setHeader('Content-Type', 'application/json')
+    res.status(503).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message: 'Too many sessions, try again later',
+      },
+      id: null,
+    })
+  }
+
+  const writeSSEEvent = (res: express.Response, id: string, data: object) => {
+    res.write(`id: ${id}\n`)
+    res.write(`data: ${JSON.stringify(data)}\n\n`)
+  }
+
+  // Store an event of a stream for resumption, and write it to the
+  // responses open on the stream
+  const sendSSEEvent = (
+    streamId: string,
+    responses: express.Response[],
+    data: object,
+  ) => {
+    const id = eventStore.store(streamId, data)
+    for (const res of responses) {
+      if (!res.writableEnded) writeSSEEvent(res, id, data)
+    }
+  }
+
+  const record = (
+    sessionId: string,
+    direction: MessageDirection,
+    message: any,
+  ) =>
+    recorder?.record({
+      direction,
+      sessionId,
+      transport: 'http-stream',
+      message,
+    })
+
+  // Answers 400 when the request names a protocol version the gateway doesn't
+  // know, or another one than its session negotiated. Requests without the
+  // header are taken to speak the negotiated version
+  const checkProtocolVersion = (
+    req: express.Request,
+    res: express.Response,
+    sessionId: string | undefined,
+  ) => {
+    const version = req.header(PROTOCOL_VERSION_HEADER)
+    if (version === undefined) return true
+
+    const negotiated = sessionId
+      ? sessions[sessionId]?.protocolVersion
+      : undefined
+    const problem = !KNOWN_PROTOCOL_VERSIONS.includes(version)
+      ? `Unsupported protocol version ${version} (supported: ${KNOWN_PROTOCOL_VERSIONS.join(', ')})`
+      : negotiated && version !== negotiated
+        ? `Protocol version ${version} does not match the negotiated version ${negotiated}`
+        : undefined
+    if (!problem) return true
+
+    logger.warn(`Rejected request in session ${sessionId}: ${problem}`)
+    res.setHeader('Content-Type', 'application/json')
+    res.status(400).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message: `Bad Request: ${problem}`,
+      },
+      id: null,
+    })
+    return false
+  }
+
+  // A session for a client, under a new ID or the one it takes back over.
+  // Undefined when the gateway is full
+  const createSession = (
+    req: express.Request,
+    res: express.Response,
+    sessionId = uuidv4(),
+  ) => {
+    if (maxSessions > 0 && Object.keys(sessions).length >= maxSessions) {
+      refuseSession(res, `${maxSessions} sessions already open`)
+      return undefined
+    }
+
+    let upstream = sharedUpstream
+
+    if (!upstream) {
+      if (Object.keys(sessions).length >= maxUpstreams) {
+        refuseSession(res, `${maxUpstreams} session upstreams already running`)
+        return undefined
+      }
+
+      const sessionUpstream: Upstream = createSessionUpstream!({
+        sessionId,
+        onMessage: (message) => handleUpstreamMessage(sessionUpstream, message),
+        onClose: () => {
+          if (sessions[sessionId]?.upstream === sessionUpstream) {
+            destroySession(sessionId)
+          }
+        },
+      })
+      upstream = sessionUpstream
+    }
+
+    const sessionLogger = logger.withFields(sessionLogFields?.(req) ?? {})
+    sessions[sessionId] = {
+      upstream,
+      logger: sessionLogger,
+      responses: new Map(),
+      streamIds: new Set(),
+      pendingStreams: new Map(),
+      lastActivity: Date.now(),
+    }
+    sessionsActive.inc({ transport: 'http-stream' })
+
+    return sessionId
+  }
+
+  // After a restart, a file-backed event store still has the streams of
+  // sessions the gateway no longer knows. A client resuming a stream of its
+  // session with GET takes the session back, as long as it ran on the shared
+  // upstream, which is initialized already. Per-session upstreams would
+  // start uninitialized
+  const canTakeOver = (req: express.Request, sessionId: string) => {
+    const lastEventId = req.header('Last-Event-ID')
+    if (req.method !== 'GET' || !lastEventId || !sharedUpstream) return false
+
+    const replay = eventStore.replayAfter(lastEventId)
+    return (
+      replay !== undefined &&
+      isStreamOf(replay.streamId, sessionId) &&
+      eventStore.hasStream(replay.streamId) &&
+      !Object.values(sessions).some((session) =>
+        session.streamIds.has(replay.streamId),
+      )
+    )
+  }
+
+  // Common session handling logic
+  const getOrCreateSession = (
+    req: express.Request,
+    res: express.Response,
+  ): string | undefined => {
+    // Set response headers
+    setResponseHeaders({
+      res,
+      headers,
+    })
+
+    // Session management
+    let sessionId = req.header(sessionHeaderName)
+
+    // Unknown, ended and expired sessions make the client initialize again,
+    // unless it is resuming a stream of its session from before a restart
+    if (sessionId && !sessions[sessionId]) {
+      if (canTakeOver(req, sessionId)) {
+        if (!checkProtocolVersion(req, res, undefined)) return undefined
+        if (!createSession(req, res, sessionId)) return undefined
+
+        // Later requests must name the version the client negotiated before
+        sessions[sessionId].protocolVersion = req.header(
+          PROTOCOL_VERSION_HEADER,
+        )
+        sessions[sessionId].logger.info(
+          `Session ${sessionId} taken back over after a restart`,
+        )
+      } else {
+        logger.debug(`Session not found: ${sessionId}`)
+        res.setHeader('Content-Type', 'application/json')
+        res.status(404).json({
+          jsonrpc: '2.0',
+          error: {
+            code: -32000,
+            message: `Session ${sessionId} not found`,
+          },
+          id: null,
+        })
+        return undefined
+      }
+    }
+
+    if (!checkProtocolVersion(req, res, sessionId)) return undefined
+
+    // Create new session if needed
+    if (!sessionId) {
+      sessionId = createSession(req, res)
+      if (!sessionId) return undefined
+
+      sessions[sessionId].logger.info(`New session created: ${sessionId}`)
+    } else {
+      logger.debug(`Using existing session: ${sessionId}`)
+    }
+
+    touchSession(sessionId)
+
+    // Always ensure the session ID is in the response headers
+    res.setHeader(sessionHeaderName, sessionId)
+    return sessionId
+  }
+
+  // Set up route handlers
+  const handleOptions = (req: express.Request, res: express.Response) => {
+    setResponseHeaders({
+      res,
+      headers,
+    })
+    res.status(204).end()
+  }
+
+  // Special manifest endpoint for clients to get initialization data without reconnecting
+  const handleManifest = (req: express.Request, res: express.Response) => {
+    setResponseHeaders({
+      res,
+      headers,
+    })
+
+    const sessionId = getOrCreateSession(req, res)
+    if (!sessionId) return
+
+    // If we have an existing session but no initialization response yet
+    // Send the initialize request immediately
+
+    // Create a standard initialize request, in the version the session
+    // already speaks or the client names, the newest one otherwise
+    const initializeRequest: JSONRPCRequest = {
+      jsonrpc: '2.0' as const,
+      method: 'initialize',
+      id: 'manifest-' + Date.now(),
+      params: {
+        protocolVersion:
+          sessions[sessionId].protocolVersion ??
+          req.header(PROTOCOL_VERSION_HEADER) ??
+          KNOWN_PROTOCOL_VERSIONS[0],
+        capabilities: {},
+        clientInfo: {
+          name: 'supergateway-manifest-endpoint',
+          version: '1.0.0',
+        },
+      },
+    }
+
+    // Send to upstream
+    logger.info(
+      `Manifest endpoint: sending initialize request for session ${sessionId}`,
+    )
+    const pending: PendingResponse = {
+      res,
+      mode: 'batch',
+      isBatch: false,
+      inFlight: new Map(),
+      results: [],
+      startedAt: Date.now(),
+    }
+    const outbound = mux.outbound({
+      sessionId,
+      request: initializeRequest,
+      context: pending,
+    })
+    pending.inFlight.set(outbound.id as number, initializeRequest.id)
+    forwardRequest(sessionId, outbound)
+
+    // The response will be handled by the upstream message handler
+  }
+
+  const handleDelete = (req: express.Request, res: express.Response) => {
+    setResponseHeaders({
+      res,
+      headers,
+    })
+
+    const sessionId = req.header(sessionHeaderName)
+
+    if (!sessionId) {
+      res.setHeader('Content-Type', 'application/json')
+      return res.status(400).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: 'Missing session ID',
+        },
+        id: null,
+      })
+    }
+
+    if (sessions[sessionId]) {
+      if (!checkProtocolVersion(req, res, sessionId)) return
+      destroySession(sessionId)
+      logger.info(`Session terminated: ${sessionId}`)
+      return res.status(204).end()
+    } else {
+      res.setHeader('Content-Type', 'application/json')
+      return res.status(404).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: `Session ${sessionId} not found`,
+        },
+        id: null,
+      })
+    }
+  }
+
+  const handleGet = (req: express.Request, res: express.Response) => {
+    // A session resumes only its own streams, and a new one has none yet
+    const lastEventId = req.header('Last-Event-ID')
+    const replay = lastEventId ? eventStore.replayAfter(lastEventId) : undefined
+    const requestedSessionId = req.header(sessionHeaderName)
+    if (
+      replay &&
+      !(requestedSessionId && isStreamOf(replay.streamId, requestedSessionId))
+    ) {
+      setResponseHeaders({
+        res,
+        headers,
+      })
+      logger.warn(`Refused to resume event ${lastEventId} of another session`)
+      res.setHeader('Content-Type', 'application/json')
+      res.status(404).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: `Event ${lastEventId} not found`,
+        },
+        id: null,
+      })
+      return
+    }
+
+    const sessionId = getOrCreateSession(req, res)
+    if (!sessionId) return
+
+    // Setup SSE connection
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    res.setHeader('Connection', 'keep-alive')
+    res.flushHeaders()
+
+    // Send connected event
+    res.write(`event: connected\ndata: {"sessionId": "${sessionId}"}\n\n`)
+
+    connectionsOpen.inc({ type: 'sse' })
+    req.on('close', () => connectionsOpen.dec({ type: 'sse' }))
+
+    const session = sessions[sessionId]
+    const resumed = lastEventId
+      ? resumeStream(res, sessionId, lastEventId, replay)
+      : undefined
+
+    // A stream mode POST still waiting for answers continues here, and one
+    // that got every answer is over once the client has them
+    const pending = resumed && session.pendingStreams.get(resumed.streamId)
+    if (pending) {
+      pending.res = res
+      return
+    }
+    if (resumed?.owned && resumed.streamId !== session.standaloneStreamId) {
+      res.end()
+      return
+    }
+
+    // Streams from before a restart have no session, the GET stream takes
+    // them over
+    session.standaloneStreamId ??= resumed?.streamId ?? newStreamId(sessionId)
+    session.streamIds.add(session.standaloneStreamId)
+
+    // Add this response to the session's responses
+    const responseId = uuidv4()
+    session.responses.set(responseId, res)
+
+    // Handle client disconnect, keeping the session for resumability
+    req.on('close', () => {
+      sessions[sessionId]?.responses.delete(responseId)
+    })
+  }
+
+  // Replays the events a client missed after its Last-Event-ID from a stream
+  // of its session, returning the stream it resumes and whether the session
+  // still has it
+  const resumeStream = (
+    res: express.Response,
+    sessionId: string,
+    lastEventId: string,
+    replay: ReturnType<EventStore['replayAfter']>,
+  ) => {
+    if (!replay || !isStreamOf(replay.streamId, sessionId)) {
+      logger.warn(
+        `Cannot resume event ${lastEventId} in session ${sessionId}, starting a new stream`,
+      )
+      return undefined
+    }
+
+    if (!replay.complete) {
+      logger.warn(
+        `Events after ${lastEventId} were dropped from the event store, resuming with the ones left`,
+      )
+    }
+    logger.debug(
+      `Replaying ${replay.events.length} events after ${lastEventId} in session ${sessionId}`,
+    )
+    const owned = sessions[sessionId].streamIds.has(replay.streamId)
+    for (const event of replay.events) {
+      writeSSEEvent(res, event.id, event.message)
+    }
+    sessions[sessionId].streamIds.add(replay.streamId)
+    return { streamId: replay.streamId, owned }
+  }
+
+  // Hand an upstream answer to the POST that asked for it, closing the HTTP
+  // response once every request of that POST has been answered
+  const deliverResponse = (
+    sessionId: string,
+    pending: PendingResponse,
+    gatewayId: number,
+    response: object,
+    status = 200,
+  ) => {
+    if (!pending.inFlight.delete(gatewayId)) return
+    progressTokens.delete(gatewayId)
+
+    record(sessionId, 'server-to-client', response)
+
+    const { res } = pending
+    const done = pending.inFlight.size === 0
+    if (done) clearTimeout(pending.timer)
+
+    // Stored even when the client is gone, it may resume the stream
+    if (pending.mode === 'stream') {
+      sendSSEEvent(pending.streamId!, [res], response)
+      if (done) {
+        sessions[sessionId]?.pendingStreams.delete(pending.streamId!)
+        res.end()
+      }
+      return
+    }
+
+    if (res.writableEnded) {
+      logger.warn(`Client for session ${sessionId} is gone, dropping response`)
+      return
+    }
+
+    if (pending.isBatch) {
+      pending.results.push(response)
+      if (done) {
+        res.setHeader('Content-Type', 'application/json')
+        res.status(200).send(JSON.stringify(pending.results))
+      }
+    } else {
+      res.setHeader('Content-Type', 'application/json')
+      res.status(status).send(JSON.stringify(response))
+    }
+  }
+
+  // Send a rewritten request to the session's upstream, answering initialize
+  // from the cache when the upstream is shared
+  const forwardRequest = (sessionId: string, request: JSONRPCRequest) => {
+    const { upstream } = sessions[sessionId]
+
+    if (
+      initializeCache &&
+      upstream === sharedUpstream &&
+      request.method === 'initialize'
+    ) {
+      initializeCache.respond(request).then(routeResponse)
+      return
+    }
+
+    upstream.send(request, { sessionId })
+  }
+
+  const handlePost = (req: express.Request, res: express.Response) => {
+    const sessionId = getOrCreateSession(req, res)
+    if (!sessionId) return
+
+    // Extract JSON-RPC message, or messages for a batch
+    const body = req.body
+    const isBatch = Array.isArray(body)
+    const messages: any[] = isBatch ? body : [body]
+
+    if (!body || typeof body !== 'object') {
+      res.setHeader('Content-Type', 'application/json')
+      return res.status(400).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32700,
+          message: 'Parse error: Invalid JSON',
+        },
+        id: null,
+      })
+    }
+
+    if (messages.some((message) => !message || typeof message !== 'object')) {
+      res.setHeader('Content-Type', 'application/json')
+      return res.status(400).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32600,
+          message: 'Invalid Request: messages must be objects',
+        },
+        id: null,
+      })
+    }
+
+    if (messages.length === 0) {
+      res.setHeader('Content-Type', 'application/json')
+      return res.status(400).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32600,
+          message: 'Invalid Request: empty batch',
+        },
+        id: null,
+      })
+    }
+
+    const { protocolVersion } = sessions[sessionId]
+    if (isBatch && !allowsBatches(protocolVersion)) {
+      res.setHeader('Content-Type', 'application/json')
+      return res.status(400).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32600,
+          message: `Invalid Request: protocol version ${protocolVersion} does not support batches`,
+        },
+        id: null,
+      })
+    }
+
+    const forbidden = checkMessage
+      ? messages.flatMap((message) => {
+          const error = checkMessage(req, message)
+          return error
+            ? [{ jsonrpc: '2.0', error, id: message.id ?? null }]
+            : []
+        })
+      : []
+    if (forbidden.length) {
+      sessions[sessionId].logger.warn(
+        `Rejected ${forbidden.length} forbidden message(s) in session ${sessionId}`,
+      )
+      res.setHeader('Content-Type', 'application/json')
+      return res.status(403).json(isBatch ? forbidden : forbidden[0])
+    }
+
+    // Clients of older versions only need to take the answer they get
+    const json = accepts(req.header('Accept'), 'application/json')
+    const sse = accepts(req.header('Accept'), 'text/event-stream')
+    const mode =
+      responseMode === 'auto'
+        ? negotiateMode({ json, sse, messages })
+        : responseMode
+    if (!mode || (requiresJsonAndSse(protocolVersion) && !(json && sse))) {
+      res.setHeader('Content-Type', 'application/json')
+      return res.status(406).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: requiresJsonAndSse(protocolVersion)
+            ? 'Not Acceptable: client must accept both application/json and text/event-stream'
+            : 'Not Acceptable: client must accept application/json or text/event-stream',
+        },
+        id: null,
+      })
+    }
+
+    // Make sure we set the content type right away
+    res.setHeader('Content-Type', 'application/json')
+
+    const { upstream } = sessions[sessionId]
+    const pending: PendingResponse = {
+      res,
+      mode,
+      isBatch,
+      inFlight: new Map(),
+      results: [],
+      startedAt: Date.now(),
+    }
+
+    for (const message of messages) {
+      logMessage({
+        logger: sessions[sessionId].logger,
+        label: 'HTTP → Upstream',
+        message,
+        direction: 'client-to-server',
+        sessionId,
+      })
+      record(sessionId, 'client-to-server', message)
+
+      // Answers to requests the upstream sent to this client
+      if (message.id !== undefined && !message.method) {
+        const routed = serverRequests.inbound(message, sessionId)
+        if (routed) {
+          routed.context.send(routed.message, { sessionId })
+        } else {
+          logger.warn(
+            `No pending server request found for ID ${message.id} in session ${sessionId}`,
+          )
+        }
+        continue
+      }
+
+      // The upstream only knows the request by its rewritten ID, and won't
+      // answer it anymore, so its POST is settled here
+      if (message.method === 'notifications/cancelled') {
+        const cancelled = mux.cancel(sessionId, message)
+        if (!cancelled) {
+          logger.debug(
+            `No pending request ${message.params?.requestId} to cancel in session ${sessionId}`,
+          )
+          continue
+        }
+
+        upstream.send(cancelled.message, { sessionId })
+
+        // A request cancelled in its own batch just isn't answered
+        if (cancelled.context === pending) {
+          pending.inFlight.delete(cancelled.id)
+          progressTokens.delete(cancelled.id)
+          continue
+        }
+        deliverResponse(sessionId, cancelled.context, cancelled.id, {
+          jsonrpc: '2.0',
+          id: cancelled.originalId,
+          error: { code: -32800, message: 'Request cancelled' },
+        })
+        continue
+      }
+
+      // Notifications are not answered by the upstream
+      if (message.id === undefined) {
+        // The shared upstream already got the gateway's notifications/initialized
+        if (
+          !initializeCache ||
+          upstream !== sharedUpstream ||
+          message.method !== 'notifications/initialized'
+        ) {
+          upstream.send(message, { sessionId })
+        }
+        continue
+      }
+
+      if (message.method === 'initialize') {
+        logger.debug(`Processing initialize request for session ${sessionId}`)
+      }
+
+      // Rewrite the request ID so the answer finds its way back to this response
+      const outbound = mux.outbound({
+        sessionId,
+        request: message,
+        context: pending,
+      })
+      pending.inFlight.set(outbound.id as number, message.id)
+
+      // Progress tokens of different sessions could clash on a shared
+      // upstream, so the gateway ID stands in for them
+      const progressToken = progressTokenOf(message)
+      if (progressToken !== undefined) {
+        progressTokens.set(outbound.id as number, {
+          sessionId,
+          pending,
+          progressToken,
+        })
+        outbound.params = {
+          ...outbound.params,
+          _meta: { ...outbound.params!._meta, progressToken: outbound.id },
+        }
+      }
+      forwardRequest(sessionId, outbound)
+    }
+
+    // Only notifications and answers, which are accepted without a body
+    if (pending.inFlight.size === 0) {
+      return res.status(202).end()
+    }
+
+    // For stream mode, set up SSE response
+    if (mode === 'stream') {
+      pending.streamId = newStreamId(sessionId)
+      sessions[sessionId].streamIds.add(pending.streamId)
+      sessions[sessionId].pendingStreams.set(pending.streamId, pending)
+
+      // Override the content type for SSE
+      res.setHeader('Content-Type', 'text/event-stream')
+      res.setHeader('Cache-Control', 'no-cache')
+      res.setHeader('Connection', 'keep-alive')
+      res.flushHeaders()
+    }
+
+    // Set up request timeout
+    pending.timer = setTimeout(() => {
+      for (const [gatewayId, requestId] of pending.inFlight) {
+        // Already answered or the session is gone
+        const entry = mux.forget(gatewayId)
+        if (!entry) continue
+
+        requestTimeouts.inc({ method: entry.method })
+
+        logger
+          .withFields({
+            sessionId,
+            requestId,
+            method: entry.method,
+            durationMs: batchTimeout,
+          })
+          .error(
+            `Request ${requestId} (session ${sessionId}) timed out after ${batchTimeout}ms`,
+          )
+
+        // Send timeout error as a proper JSON-RPC response
+        const timeoutResponse = {
+          jsonrpc: '2.0',
+          error: {
+            code: -32000,
+            message: 'Request timeout',
+          },
+          id: requestId,
+        }
+
+        deliverResponse(sessionId, pending, gatewayId, timeoutResponse, 504)
+      }
+    }, batchTimeout)
+  }
+
+  // Register the endpoints using middleware
+  app.use(endpoint, bodyParser.json({ limit: '4mb' }), (req, res) => {
+    if (req.method === 'OPTIONS') {
+      handleOptions(req, res)
+    } else if (req.method === 'DELETE') {
+      handleDelete(req, res)
+    } else if (req.method === 'GET') {
+      handleGet(req, res)
+    } else if (req.method === 'POST') {
+      // Special endpoint for manifest requests
+      if (req.path === '/manifest' || req.path === 'manifest') {
+        handleManifest(req, res)
+      } else {
+        handlePost(req, res)
+      }
+    } else {
+      res.setHeader('Content-Type', 'application/json')
+      res.status(405).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: `Method ${req.method} not allowed`,
+        },
+        id: null,
+      })
+    }
+  })
+
+  // Bodies that can't be parsed get a JSON-RPC error rather than Express's
+  // error page
+  app.use(
+    endpoint,
+    (
+      err: unknown,
+      req: express.Request,
+      res: express.Response,
+      next: express.NextFunction,
+    ) => {
+      if (res.headersSent) return next(err)
+
+      const parseFailed =
+        err instanceof Error &&
+        'type' in err &&
+        err.type === 'entity.parse.failed'
+      const status =
+        err instanceof Error &&
+        'status' in err &&
+        typeof err.status === 'number'
+          ? err.status
+          : 500
+      if (status >= 500) {
+        logger.error('Failed to handle request:', err)
+      }
+
+      setResponseHeaders({
+        res,
+        headers,
+      })
+      res.setHeader('Content-Type', 'application/json')
+      res.status(status).json({
+        jsonrpc: '2.0',
+        error: parseFailed
+          ? { code: -32700, message: 'Parse error: Invalid JSON' }
+          : status < 500 && err instanceof Error
+            ? { code: -32600, message: `Invalid Request: ${err.message}` }
+            : { code: -32603, message: 'Internal error' },
+        id: null,
+      })
+    },
+  )
+
+  // Also register a direct manifest endpoint
+  app.use(endpoint + '/manifest', (req, res) => {
+    if (req.method === 'POST' || req.method === 'GET') {
+      handleManifest(req, res)
+    } else if (req.method === 'OPTIONS') {
+      handleOptions(req, res)
+    } else {
+      res.setHeader('Content-Type', 'application/json')
+      res.status(405).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: `Method ${req.method} not allowed for manifest endpoint`,
+        },
+        id: null,
+      })
+    }
+  })
+
+  // Responses go back to exactly the session and HTTP response that asked
+  function routeResponse(jsonMsg: any) {
+    const routed = mux.inbound(jsonMsg)
+    if (!routed) {
+      logger.warn(`No pending request found for ID ${jsonMsg.id}`)
+      return
+    }
+
+    const { sessionId, originalId, method, context } = routed
+
+    // Ensure we have a complete and valid JSON-RPC response
+    const validResponse = {
+      jsonrpc: '2.0',
+      result: jsonMsg.result !== undefined ? jsonMsg.result : null,
+      error: jsonMsg.error || null,
+      id: originalId,
+    }
+
+    // Remove null properties
+    if (validResponse.error === null) delete validResponse.error
+
+    // Later requests of the session must name this version
+    const session = sessions[sessionId]
+    const protocolVersion = negotiatedVersionOf(jsonMsg)
+    if (session && method === 'initialize' && protocolVersion) {
+      session.protocolVersion = protocolVersion
+      session.logger.debug(
+        `Session ${sessionId} negotiated protocol version ${protocolVersion}`,
+      )
+    }
+
+    logMessage({
+      logger: sessions[sessionId]?.logger ?? logger,
+      label: 'Upstream → HTTP',
+      message: validResponse,
+      direction: 'server-to-client',
+      sessionId,
+      method,
+      durationMs: Date.now() - context.startedAt,
+    })
+
+    try {
+      // Clients of older protocol versions than the upstream's get what
+      // they can read
+      deliverResponse(
+        sessionId,
+        context,
+        jsonMsg.id,
+        translateForClient(validResponse, session?.protocolVersion),
+      )
+    } catch (error) {
+      const err = error as Error
+      logger.error(`Failed to send to session ${sessionId}:`, err)
+    }
+  }
+
+  // Requests from the upstream (sampling, roots, ...) don't say which client
+  // request they are for. They go to the session whose requests the upstream
+  // is working on, or its only session, over the request's SSE stream when
+  // it has one and the session's GET stream otherwise. While requests of
+  // several sessions are in flight the upstream gets an error instead, so no
+  // client sees what another client's request is about
+  function routeUpstreamRequest(upstream: Upstream, jsonMsg: any) {
+    const origin = mux.soleOrigin(
+      (entry) => sessions[entry.sessionId]?.upstream === upstream,
+    )
+    const upstreamSessions = Object.keys(sessions).filter(
+      (id) => sessions[id].upstream === upstream,
+    )
+    const sessionId =
+      origin?.sessionId ??
+      (upstreamSessions.length === 1 ? upstreamSessions[0] : undefined)
+    const session = sessionId ? sessions[sessionId] : undefined
+    const streams = session
+      ? [
+          ...(origin?.context.mode === 'stream'
+            ? [{ streamId: origin.context.streamId!, res: origin.context.res }]
+            : []),
+          ...[...session.responses.values()].map((res) => ({
+            streamId: session.standaloneStreamId!,
+            res,
+          })),
+        ]
+      : []
+    const stream = streams.find(({ res }) => !res.writableEnded)
+
+    if (!sessionId || !stream) {
+      logger.warn(
+        sessionId || upstreamSessions.length < 2
+          ? `No client stream to deliver ${jsonMsg.method} request ${jsonMsg.id} to`
+          : `Cannot tell which session ${jsonMsg.method} request ${jsonMsg.id} is for`,
+      )
+      upstream.send({
+        jsonrpc: '2.0',
+        id: jsonMsg.id,
+        error: {
+          code: -32603,
+          message: `No client available to handle ${jsonMsg.method}`,
+        },
+      })
+      return
+    }
+
+    const outbound = translateForClient(
+      serverRequests.outbound({
+        sessionId,
+        request: jsonMsg,
+        context: upstream,
+      }),
+      session!.protocolVersion,
+    )
+    logger.debug(
+      `Forwarding ${jsonMsg.method} request ${jsonMsg.id} to session ${sessionId}`,
+    )
+    record(sessionId, 'server-to-client', outbound)
+    sendSSEEvent(stream.streamId, [stream.res], outbound)
+  }
+
+  // Progress goes only to the session whose request it's about, on the
+  // request's SSE stream while it's open and the GET stream otherwise
+  function routeProgress(jsonMsg: any) {
+    const { sessionId, pending, progressToken } = progressTokens.get(
+      jsonMsg.params.progressToken,
+    )!
+    const session = sessions[sessionId]
+    const notification = translateForClient(
+      {
+        jsonrpc: '2.0',
+        method: jsonMsg.method,
+        params: { ...jsonMsg.params, progressToken },
+      },
+      session.protocolVersion,
+    )
+    record(sessionId, 'server-to-client', notification)
+
+    if (
+      pending.mode === 'stream' &&
+      session.pendingStreams.has(pending.streamId!)
+    ) {
+      sendSSEEvent(pending.streamId!, [pending.res], notification)
+    } else if (session.standaloneStreamId) {
+      sendSSEEvent(
+        session.standaloneStreamId,
+        [...session.responses.values()],
+        notification,
+      )
+    }
+  }
+
+  // Handle a message from an upstream
+  function handleUpstreamMessage(upstream: Upstream, jsonMsg: any) {
+    if (jsonMsg.id !== undefined && jsonMsg.method !== undefined) {
+      routeUpstreamRequest(upstream, jsonMsg)
+      return
+    }
+
+    if (jsonMsg.id !== undefined) {
+      routeResponse(jsonMsg)
+      return
+    }
+
+    if (
+      jsonMsg.method === 'notifications/progress' &&
+      progressTokens.has(jsonMsg.params?.progressToken)
+    ) {
+      routeProgress(jsonMsg)
+      return
+    }
+
+    // Ensure we have a complete and valid JSON-RPC notification
+    const validNotification = {
+      jsonrpc: '2.0',
+      method: jsonMsg.method || '',
+      params: jsonMsg.params || null,
+    }
+
+    // Remove null properties
+    if (validNotification.params === null) delete validNotification.params
+
+    // Broadcast notifications to all sessions of this upstream
+    for (const [sessionId, session] of Object.entries(sessions)) {
+      if (session.upstream !== upstream) continue
+
+      const notification = translateForClient(
+        validNotification,
+        session.protocolVersion,
+      )
+      record(sessionId, 'server-to-client', notification)
+
+      // Sessions that never opened a GET stream can't get notifications
+      if (!session.standaloneStreamId) continue
+
+      try {
+        sendSSEEvent(
+          session.standaloneStreamId,
+          [...session.responses.values()],
+          notification,
+        )
+      } catch (error) {
+        const err = error as Error
+        logger.error(`Failed to send to session ${sessionId}:`, err)
+        logger.error(err.stack || err.message || String(err))
+      }
+    }
+  }
+
+  // Stop every session, e.g. on shutdown
+  const close = () => {
+    clearInterval(sweeper)
+    for (const sessionId of Object.keys(sessions)) {
+      destroySession(sessionId, { keepEvents: true })
+    }
+  }
+
+  return {
+    handleUpstreamMessage,
+    close,
+    get sessionCount() {
+      return Object.keys(sessions).length
+    },
+  }
+}
@@ -1,8 +1,12 @@
-import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import {
+  Transport,
+  TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js'
 import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
 import { v4 as uuidv4 } from 'uuid'
 import { WebSocket, WebSocketServer } from 'ws'
-import { Server } from 'http'
+import { IncomingMessage, Server } from 'http'
+import { bytesReceived, bytesSent, connectionsOpen } from '../lib/metrics.js'
 
 export class WebSocketServerTransport implements Transport {
   private wss!: WebSocketServer
@@ -11,7 +15,9 @@ export class WebSocketServerTransport implements Transport {
   onclose?: () => void
   onerror?: (err: Error) => void
   private messageHandler?: (msg: JSONRPCMessage, clientId: string) => void
-  onconnection?: (clientId: string) => void
+  // Receives every message with its client untouched, instead of onmessage
+  onclientmessage?: (msg: JSONRPCMessage, clientId: string) => void
+  onconnection?: (clientId: string, req: IncomingMessage) => void
   ondisconnection?: (clientId: string) => void
 
   set onmessage(handler: ((message: JSONRPCMessage) => void) | undefined) {
@@ -32,29 +38,96 @@ export class WebSocketServerTransport implements Transport {
       : undefined
   }
 
-  constructor({ path, server }: { path: string; server: Server }) {
+  // With sharedServer, upgrades for other paths are left to the other
+  // listeners on the server instead of being rejected. verifyClient returns
+  // the HTTP error that refuses an upgrade, if any
+  constructor({
+    path,
+    server,
+    sharedServer = false,
+    verifyClient,
+  }: {
+    path: string
+    server: Server
+    sharedServer?: boolean
+    verifyClient?: (
+      req: IncomingMessage,
+    ) => Promise<
+      | { status: number; body: object; headers?: Record<string, string> }
+      | undefined
+    >
+  }) {
+    const verify = verifyClient
+      ? (
+          { req }: { req: IncomingMessage },
+          callback: (
+            result: boolean,
+            code?: number,
+            message?: string,
+            headers?: Record<string, string>,
+          ) => void,
+        ) => {
+          verifyClient(req).then((rejection) => {
+            if (!rejection) return callback(true)
+
+            callback(false, rejection.status, JSON.stringify(rejection.body), {
+              ...rejection.headers,
+              'Content-Type': 'application/json',
+            })
+          })
+        }
+      : undefined
+
+    if (!sharedServer) {
+      this.wss = new WebSocketServer({
+        path,
+        server,
+        verifyClient: verify,
+      })
+      return
+    }
+
     this.wss = new WebSocketServer({
       path,
-      server,
+      noServer: true,
+      verifyClient: verify,
+    })
+    server.on('upgrade', (req, socket, head) => {
+      if (!this.wss.shouldHandle(req)) return
+
+      this.wss.handleUpgrade(req, socket, head, (ws) => {
+        this.wss.emit('connection', ws, req)
+      })
     })
   }
 
   async start(): Promise<void> {
-    this.wss.on('connection', (ws: WebSocket) => {
+    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
       const clientId = uuidv4()
       this.clients.set(clientId, ws)
-      this.onconnection?.(clientId)
+      connectionsOpen.inc({ type: 'ws' })
+      this.onconnection?.(clientId, req)
 
       ws.on('message', (data: Buffer) => {
+        bytesReceived.inc({ transport: 'ws' }, data.length)
         try {
-          const msg = JSON.parse(data.toString())
-          this.messageHandler?.(msg, clientId)
+          const parsed = JSON.parse(data.toString())
+          // Batches are handled one message at a time, so they reach children
+          // of newer protocol versions, which don't take them
+          for (const msg of Array.isArray(parsed) ? parsed : [parsed]) {
+            if (this.onclientmessage) {
+              this.onclientmessage(msg, clientId)
+            } else {
+              this.messageHandler?.(msg, clientId)
+            }
+          }
         } catch (err) {
           this.onerror?.(new Error(`Failed to parse message: ${err}`))
         }
       })
 
       ws.on('close', () => {
+        connectionsOpen.dec({ type: 'ws' })
         this.clients.delete(clientId)
         this.ondisconnection?.(clientId)
       })
@@ -65,8 +138,17 @@ export class WebSocketServerTransport implements Transport {
     })
   }
 
-  async send(msg: JSONRPCMessage, clientId?: string): Promise<void> {
-    const [cId, msgId] = clientId?.split(':') ?? []
+  private sendData(client: WebSocket, data: string) {
+    bytesSent.inc({ transport: 'ws' }, Buffer.byteLength(data))
+    client.send(data)
+  }
+
+  async send(
+    msg: JSONRPCMessage,
+    options?: TransportSendOptions,
+  ): Promise<void> {
+    // relatedRequestId is the "clientId:id" the message handler made up
+    const [cId, msgId] = options?.relatedRequestId?.toString().split(':') ?? []
     // @ts-ignore
     msg.id = parseInt(msgId)
     const data = JSON.stringify(msg)
@@ -76,7 +158,7 @@ export class WebSocketServerTransport implements Transport {
       // Send to specific client
       const client = this.clients.get(cId)
       if (client?.readyState === WebSocket.OPEN) {
-        client.send(data)
+        this.sendData(client, data)
       } else {
         this.clients.delete(cId)
         this.ondisconnection?.(cId)
@@ -95,8 +177,26 @@ export class WebSocketServerTransport implements Transport {
     })
   }
 
+  // Send a message to one client as-is
+  async sendToClient(clientId: string, msg: JSONRPCMessage): Promise<void> {
+    const client = this.clients.get(clientId)
+    if (client?.readyState === WebSocket.OPEN) {
+      this.sendData(client, JSON.stringify(msg))
+    }
+  }
+
+  // Close one client's connection
+  disconnect(clientId: string) {
+    this.clients.get(clientId)?.close()
+  }
+
   async broadcast(msg: JSONRPCMessage): Promise<void> {
-    return this.send(msg)
+    const data = JSON.stringify(msg)
+    for (const client of this.clients.values()) {
+      if (client.readyState === WebSocket.OPEN) {
+        this.sendData(client, data)
+      }
+    }
   }
 
   async close(): Promise<void> {
@@ -1,5 +1,25 @@
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+
+// Whether a message goes from the client to the MCP server or back
+export type MessageDirection = 'client-to-server' | 'server-to-client'
+
+// Structured context of a log line, e.g. sessionId, requestId or method
+export type LogFields = Record<string, unknown>
+
 export interface Logger {
+  debug: (...args: any[]) => void
   info: (...args: any[]) => void
+  warn: (...args: any[]) => void
   error: (...args: any[]) => void
-  warn?: (...args: any[]) => void
+  // A logger that adds the fields to every line, undefined fields are left out
+  withFields: (fields: LogFields) => Logger
+}
+
+// The MCP server behind a gateway: a stdio child or a remote connection
+export interface Upstream {
+  // sessionId names the client session the message comes from, if any
+  send: (message: JSONRPCMessage, options?: { sessionId?: string }) => void
+  close: () => void
+  // Called when a session that used this upstream ends
+  closeSession?: (sessionId: string) => void
 }
@@ -0,0 +1,162 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createAggregateUpstream } from '../src/lib/aggregateUpstream.js'
+import {
+  callTool,
+  createCollector,
+  logger,
+  resultText,
+  serverCmd,
+} from './helpers.js'
+
+const startAggregate = (servers: Record<string, Record<string, string>>) => {
+  const collector = createCollector()
+  const aggregate = createAggregateUpstream({
+    servers: Object.entries(servers).map(([name, env]) => ({
+      name,
+      stdioCmd: serverCmd({ SERVER_NAME: name, ...env }),
+    })),
+    logger,
+    maxRestarts: 0,
+    restartWindow: 60000,
+    onMessage: collector.onMessage,
+    onGiveUp: () => {},
+  })
+  return { aggregate, collector }
+}
+
+const request = async (
+  upstream: ReturnType<typeof startAggregate>,
+  id: number,
+  method: string,
+  params?: any,
+) => {
+  upstream.aggregate.send({ jsonrpc: '2.0', id, method, params })
+  return upstream.collector.answerTo(id)
+}
+
+test('tools are namespaced by server and calls reach their server', async (t) => {
+  const upstream = startAggregate({ git: {}, github: {} })
+  t.after(upstream.aggregate.close)
+
+  const { result } = await request(upstream, 1, 'tools/list')
+  const names = result.tools.map((tool: any) => tool.name)
+  assert.ok(names.includes('git__whoami'))
+  assert.ok(names.includes('github__whoami'))
+  assert.equal(result.nextCursor, undefined)
+
+  const git = await request(upstream, 2, 'tools/call', {
+    name: 'git__whoami',
+  })
+  assert.match(resultText(git), /^git:/)
+  const github = await request(upstream, 3, 'tools/call', {
+    name: 'github__whoami',
+  })
+  assert.match(resultText(github), /^github:/)
+
+  const unknown = await request(upstream, 4, 'tools/call', {
+    name: 'gitlab__whoami',
+  })
+  assert.equal(unknown.error.code, -32602)
+})
+
+test('resources are read from the server that listed them', async (t) => {
+  const upstream = startAggregate({ one: {}, two: {} })
+  t.after(upstream.aggregate.close)
+
+  await request(upstream, 1, 'resources/list')
+  const { result } = await request(upstream, 2, 'resources/read', {
+    uri: 'two://readme',
+  })
+  assert.equal(result.contents[0].text, 'two readme')
+})
+
+test('list pages of every server are merged under one cursor', async (t) => {
+  const upstream = startAggregate({ paged: { PAGE_SIZE: '4' }, whole: {} })
+  t.after(upstream.aggregate.close)
+
+  const names: string[] = []
+  let cursor: string | undefined
+  let pages = 0
+  do {
+    const { result } = await request(
+      upstream,
+      ++pages,
+      'tools/list',
+      cursor && { cursor },
+    )
+    names.push(...result.tools.map((tool: any) => tool.name))
+    cursor = result.nextCursor
+  } while (cursor)
+
+  assert.equal(pages, 2)
+  const byServer = (server: string) =>
+    names.filter((name) => name.startsWith(`${server}__`)).length
+  assert.equal(byServer('paged'), byServer('whole'))
+  assert.equal(new Set(names).size, names.length)
+
+  const invalid = await request(upstream, 10, 'tools/list', {
+    cursor: 'not a cursor',
+  })
+  assert.equal(invalid.error.code, -32602)
+})
+
+test('cancelling a request tells its server without answering', async (t) => {
+  const upstream = startAggregate({ one: {} })
+  t.after(upstream.aggregate.close)
+
+  const cancel = (sessionId: string) =>
+    upstream.aggregate.send(
+      {
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId: 1 },
+      },
+      { sessionId },
+    )
+
+  upstream.aggregate.send(callTool(1, 'one__slow', { ms: 300 }), {
+    sessionId: 'a',
+  })
+  upstream.aggregate.send(callTool(1, 'one__slow', { ms: 300 }), {
+    sessionId: 'b',
+  })
+  // Only the request of the session that cancelled it is cancelled
+  cancel('b')
+
+  const answered = await upstream.collector.answerTo(1)
+  assert.equal(resultText(answered), 'slow done')
+
+  const seen = await request(upstream, 2, 'tools/call', {
+    name: 'one__cancelled',
+  })
+  assert.equal(JSON.parse(resultText(seen)).length, 1)
+  assert.equal(
+    upstream.collector.messages.filter((message) => message.id === 1).length,
+    1,
+  )
+})
+
+test('a server answering without a list is left out of the merge', async (t) => {
+  const upstream = startAggregate({ broken: { MALFORMED_LISTS: '1' }, ok: {} })
+  t.after(upstream.aggregate.close)
+
+  const { result } = await request(upstream, 1, 'tools/list')
+  assert.ok(result.tools.length > 0)
+  assert.ok(result.tools.every((tool: any) => tool.name.startsWith('ok__')))
+
+  const alone = startAggregate({ broken: { MALFORMED_LISTS: '1' } })
+  t.after(alone.aggregate.close)
+  const failed = await request(alone, 1, 'tools/list')
+  assert.equal(failed.error.code, -32603)
+})
+
+test('methods named like object properties are not found', async (t) => {
+  const upstream = startAggregate({ one: {} })
+  t.after(upstream.aggregate.close)
+
+  for (const [id, method] of ['constructor', '__proto__'].entries()) {
+    const { error } = await request(upstream, id + 1, method)
+    assert.equal(error.code, -32601)
+  }
+})
@@ -0,0 +1,80 @@
+import { test, type TestContext } from 'node:test'
+import assert from 'node:assert/strict'
+import { createApiKeyMatcher, parseApiKeys } from '../src/lib/apiKeys.js'
+import { createAuth } from '../src/lib/auth.js'
+import {
+  callTool,
+  initialize,
+  logger,
+  post,
+  resultText,
+  startGateway,
+} from './helpers.js'
+
+const startWithKeys = (t: TestContext) =>
+  startGateway(t, {
+    responseMode: 'batch',
+    auth: createAuth({
+      apiKeys: parseApiKeys(['admin-key', 'reader-key:echo,read_*']),
+      logger,
+    }),
+  })
+
+test('API keys are parsed with the tools they may call', () => {
+  assert.deepEqual(parseApiKeys(['secret', 'other:read_*, search']), [
+    { key: 'secret', tools: [] },
+    { key: 'other', tools: ['read_*', 'search'] },
+  ])
+  assert.throws(() => parseApiKeys([':read_*']))
+
+  const match = createApiKeyMatcher(parseApiKeys(['secret']))
+  assert.equal(match('secret')?.key, 'secret')
+  assert.equal(match('secre'), undefined)
+  assert.equal(match('secret2'), undefined)
+})
+
+test('requests without a valid API key get 401', async (t) => {
+  const { url } = await startWithKeys(t)
+
+  for (const headers of [
+    {},
+    { 'x-api-key': 'wrong-key' },
+    { Authorization: 'Bearer wrong-key' },
+  ] as Record<string, string>[]) {
+    const res = await post(url, callTool(1, 'echo'), undefined, headers)
+    assert.equal(res.status, 401)
+    assert.equal(res.headers.get('WWW-Authenticate'), 'Bearer')
+    assert.equal((await res.json()).error.code, -32001)
+  }
+
+  for (const headers of [
+    { 'x-api-key': 'admin-key' },
+    { Authorization: 'Bearer admin-key' },
+  ] as Record<string, string>[]) {
+    const session = await initialize(url, headers)
+    const res = await post(url, callTool(1, 'whoami'), session, headers)
+    assert.equal(res.status, 200)
+    assert.match(resultText(await res.json()), /^test:/)
+  }
+})
+
+test('a key limited to some tools gets 403 for the others', async (t) => {
+  const { url } = await startWithKeys(t)
+  const headers = { 'x-api-key': 'reader-key' }
+  const session = await initialize(url, headers)
+
+  const forbidden = await post(url, callTool(1, 'whoami'), session, headers)
+  assert.equal(forbidden.status, 403)
+  const { error, id } = await forbidden.json()
+  assert.equal(error.code, -32003)
+  assert.equal(id, 1)
+
+  const allowed = await post(
+    url,
+    callTool(2, 'echo', { text: 'hi' }),
+    session,
+    headers,
+  )
+  assert.equal(allowed.status, 200)
+  assert.equal(resultText(await allowed.json()), 'hi')
+})
@@ -0,0 +1,166 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createChildPool, type ChildPoolOptions } from '../src/lib/childPool.js'
+import { CHILD_EXITED_ERROR } from '../src/lib/superviseChild.js'
+import {
+  callTool,
+  createCollector,
+  logger,
+  resultText,
+  serverCmd,
+} from './helpers.js'
+
+const startPool = (options: Partial<ChildPoolOptions> = {}) => {
+  const collector = createCollector()
+  const pool = createChildPool({
+    stdioCmd: serverCmd(),
+    logger,
+    size: 2,
+    strategy: 'round-robin',
+    stickySessions: false,
+    healthCheckInterval: 0,
+    maxRestarts: 0,
+    restartWindow: 60000,
+    onMessage: collector.onMessage,
+    onGiveUp: () => {},
+    ...options,
+  })
+  return { pool, collector }
+}
+
+const whoami = async (
+  pool: ReturnType<typeof createChildPool>,
+  collector: ReturnType<typeof createCollector>,
+  id: number,
+  sessionId?: string,
+) => {
+  pool.send(callTool(id, 'whoami'), { sessionId })
+  return resultText(await collector.answerTo(id))
+}
+
+test('round-robin takes turns between the members', async (t) => {
+  const { pool, collector } = startPool()
+  t.after(pool.close)
+
+  const answers = []
+  for (let id = 1; id <= 4; id++) {
+    answers.push(await whoami(pool, collector, id))
+  }
+
+  assert.notEqual(answers[0], answers[1])
+  assert.deepEqual(answers.slice(2), answers.slice(0, 2))
+})
+
+test('least-in-flight skips the member that is busy', async (t) => {
+  const { pool, collector } = startPool({ strategy: 'least-in-flight' })
+  t.after(pool.close)
+
+  pool.send(callTool(1, 'slow', { ms: 1000 }))
+  const busy = pool.status().find((member) => member.inFlight === 1)
+  assert.ok(busy)
+
+  // Every request while the slow one runs goes to the idle member
+  const answers = []
+  for (let id = 2; id <= 4; id++) {
+    answers.push(await whoami(pool, collector, id))
+  }
+  assert.equal(new Set(answers).size, 1)
+  assert.notEqual(answers[0], `test:${busy.pid}`)
+
+  await collector.answerTo(1)
+  assert.deepEqual(
+    pool.status().map((member) => member.inFlight),
+    [0, 0],
+  )
+})
+
+test('sticky sessions keep a session on its member', async (t) => {
+  const { pool, collector } = startPool({ stickySessions: true })
+  t.after(pool.close)
+
+  const first = await whoami(pool, collector, 1, 'a')
+  const second = await whoami(pool, collector, 2, 'b')
+  assert.notEqual(first, second)
+
+  for (let id = 3; id <= 6; id++) {
+    assert.equal(await whoami(pool, collector, id, 'a'), first)
+  }
+  assert.equal(await whoami(pool, collector, 7, 'b'), second)
+
+  // A closed session is pinned again the next time it shows up
+  pool.closeSession?.('a')
+  const repinned = await whoami(pool, collector, 8, 'a')
+  assert.equal(await whoami(pool, collector, 9, 'a'), repinned)
+  assert.equal(await whoami(pool, collector, 10, 'a'), repinned)
+})
+
+test('requests from a member are answered by the member that asked', async (t) => {
+  const { pool, collector } = startPool()
+  t.after(pool.close)
+
+  pool.send(callTool(1, 'sample'))
+  const sampling = await collector.waitFor(
+    (message) => message.method === 'sampling/createMessage',
+  )
+  // The member's own ID is swapped for one that is unique in the pool
+  assert.equal(typeof sampling.id, 'number')
+
+  pool.send({
+    jsonrpc: '2.0',
+    id: sampling.id,
+    result: { role: 'assistant', content: { type: 'text', text: 'yes' } },
+  })
+  assert.equal(resultText(await collector.answerTo(1)), 'sampled yes')
+})
+
+test('a cancelled request is no longer in flight', async (t) => {
+  const { pool, collector } = startPool()
+  t.after(pool.close)
+
+  pool.send(callTool(1, 'slow', { ms: 300 }), { sessionId: 'a' })
+  const cancel = (sessionId: string) =>
+    pool.send(
+      {
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId: 1 },
+      },
+      { sessionId },
+    )
+
+  // Other sessions can't cancel it
+  cancel('b')
+  assert.equal(pool.status().filter((member) => member.inFlight).length, 1)
+
+  cancel('a')
+  assert.deepEqual(
+    pool.status().map((member) => member.inFlight),
+    [0, 0],
+  )
+  await assert.rejects(collector.answerTo(1, 600))
+})
+
+test('a member that exits too often is taken out of the pool', async (t) => {
+  let gaveUp = false
+  const { pool, collector } = startPool({
+    onGiveUp: () => {
+      gaveUp = true
+    },
+  })
+  t.after(pool.close)
+
+  pool.send(callTool(1, 'crash'))
+  assert.deepEqual((await collector.answerTo(1)).error, CHILD_EXITED_ERROR)
+
+  // Every request goes to the member that is left
+  const answers = []
+  for (let id = 2; id <= 4; id++) {
+    answers.push(await whoami(pool, collector, id))
+  }
+  assert.equal(new Set(answers).size, 1)
+  assert.equal(gaveUp, false)
+
+  pool.send(callTool(5, 'crash'))
+  await collector.answerTo(5)
+  assert.equal(gaveUp, true)
+})
@@ -0,0 +1,113 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { createEventStore } from '../src/lib/eventStore.js'
+import { logger } from './helpers.js'
+
+const message = (n: number) => ({
+  jsonrpc: '2.0',
+  method: 'test',
+  params: { n },
+})
+
+const replayedNumbers = (
+  replay: ReturnType<ReturnType<typeof createEventStore>['replayAfter']>,
+) => replay?.events.map((event) => (event.message as any).params.n)
+
+const tempFile = (t: { after: (fn: () => void) => void }) => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'supergateway-events-'))
+  t.after(() => rmSync(dir, { recursive: true, force: true }))
+  return path.join(dir, 'events.jsonl')
+}
+
+test('replays the events of a stream after the last event ID', () => {
+  const store = createEventStore({ logger })
+  const first = store.store('a', message(1))
+  store.store('b', message(2))
+  store.store('a', message(3))
+  store.store('a', message(4))
+
+  const replay = store.replayAfter(first)
+  assert.equal(replay?.streamId, 'a')
+  assert.deepEqual(replayedNumbers(replay), [3, 4])
+  assert.equal(replay?.complete, true)
+
+  assert.equal(store.replayAfter('a_99'), undefined)
+  assert.equal(store.replayAfter('not an event ID'), undefined)
+})
+
+test('drops the oldest events beyond maxEvents', () => {
+  const store = createEventStore({ logger, maxEvents: 3 })
+  const ids = [1, 2, 3, 4, 5].map((n) => store.store('a', message(n)))
+
+  // Events 1 and 2 were dropped, a replay after 1 misses 2
+  const replay = store.replayAfter(ids[0])
+  assert.deepEqual(replayedNumbers(replay), [3, 4, 5])
+  assert.equal(replay?.complete, false)
+
+  const recent = store.replayAfter(ids[1])
+  assert.deepEqual(replayedNumbers(recent), [3, 4, 5])
+  assert.equal(recent?.complete, true)
+})
+
+test('drops the oldest events beyond maxBytes', () => {
+  const bytes = Buffer.byteLength(JSON.stringify(message(1)))
+  const store = createEventStore({ logger, maxBytes: bytes * 2 })
+  const ids = [1, 2, 3].map((n) => store.store('a', message(n)))
+
+  // Only the first event was dropped, nothing after it is missing
+  const replay = store.replayAfter(ids[0])
+  assert.deepEqual(replayedNumbers(replay), [2, 3])
+  assert.equal(replay?.complete, true)
+
+  store.store('a', message(4))
+  assert.equal(store.replayAfter(ids[0])?.complete, false)
+})
+
+test('forgets dropped streams', () => {
+  const store = createEventStore({ logger })
+  const a = store.store('a', message(1))
+  store.store('a', message(2))
+  const b = store.store('b', message(3))
+  store.store('b', message(4))
+
+  store.dropStreams(['a'])
+  assert.deepEqual(replayedNumbers(store.replayAfter(a)), [])
+  assert.deepEqual(replayedNumbers(store.replayAfter(b)), [4])
+})
+
+test('a file-backed store replays its events after a restart', (t) => {
+  const file = tempFile(t)
+  const before = createEventStore({ logger, path: file })
+  const first = before.store('a', message(1))
+  before.store('a', message(2))
+
+  const after = createEventStore({ logger, path: file })
+  assert.deepEqual(replayedNumbers(after.replayAfter(first)), [2])
+
+  // New events continue the sequence of the loaded ones
+  const next = after.store('a', message(3))
+  assert.equal(next, 'a_3')
+})
+
+test('the file is compacted once dropped events make up half of it', (t) => {
+  const file = tempFile(t)
+  const lines = () => readFileSync(file, 'utf8').trim().split('\n').length
+
+  const store = createEventStore({ logger, path: file, maxEvents: 2 })
+  for (let n = 1; n <= 4; n++) store.store('a', message(n))
+  assert.equal(lines(), 4)
+
+  // The fifth line is more than twice the two events kept
+  const last = store.store('a', message(5))
+  assert.equal(lines(), 2)
+
+  store.dropStreams(['a'])
+  store.store('b', message(6))
+  assert.equal(lines(), 1)
+
+  const reloaded = createEventStore({ logger, path: file })
+  assert.equal(reloaded.replayAfter(last)?.events.length, 0)
+})
@@ -0,0 +1,174 @@
+// A small MCP stdio server for the tests. SERVER_NAME names it in results,
+// PAGE_SIZE pages tools/list, PROTOCOL_VERSION is what it answers initialize
+// with, NO_BATCHES makes it reject JSON-RPC batches like newer servers and
+// STRICT_INIT makes it refuse requests before notifications/initialized.
+// MALFORMED_LISTS makes it answer tools/list without a list of tools
+import readline from 'readline'
+
+const name = process.env.SERVER_NAME ?? 'test'
+const pageSize = Number(process.env.PAGE_SIZE ?? Infinity)
+const protocolVersion = process.env.PROTOCOL_VERSION ?? '2025-03-26'
+
+const tools = [
+  'echo',
+  'whoami',
+  'slow',
+  'sample',
+  'cancelled',
+  'rich',
+  'crash',
+].map((tool) => ({
+  name: tool,
+  title: `The ${tool} tool`,
+  inputSchema: { type: 'object' },
+  annotations: { readOnlyHint: true },
+}))
+
+const send = (message) => process.stdout.write(JSON.stringify(message) + '\n')
+const answer = (id, result) => send({ jsonrpc: '2.0', id, result })
+const text = (value) => ({ content: [{ type: 'text', text: value }] })
+
+// Requests the client cancelled, and the ones still being worked on
+const cancelled = []
+const working = new Map()
+// Sampling requests sent to the client, by ID, with the call to answer
+const sampling = new Map()
+let lastSample = 0
+let initialized = false
+
+const callTool = (id, params) => {
+  const args = params.arguments ?? {}
+  switch (params.name) {
+    case 'echo':
+      return answer(id, text(String(args.text)))
+    case 'whoami':
+      return answer(id, text(`${name}:${process.pid}`))
+    case 'slow': {
+      const timer = setTimeout(() => {
+        working.delete(id)
+        answer(id, text('slow done'))
+      }, args.ms ?? 500)
+      working.set(id, timer)
+      return
+    }
+    case 'sample': {
+      const sampleId = `sample-${++lastSample}`
+      sampling.set(sampleId, id)
+      return send({
+        jsonrpc: '2.0',
+        id: sampleId,
+        method: 'sampling/createMessage',
+        params: {
+          messages: [{ role: 'user', content: { type: 'text', text: 'hi' } }],
+          maxTokens: 10,
+        },
+      })
+    }
+    case 'cancelled':
+      return answer(id, text(JSON.stringify(cancelled)))
+    case 'rich':
+      return answer(id, {
+        content: [{ type: 'audio', data: 'AAAA', mimeType: 'audio/wav' }],
+        structuredContent: { ok: true },
+      })
+    case 'crash':
+      return process.exit(1)
+    default:
+      return send({
+        jsonrpc: '2.0',
+        id,
+        error: { code: -32602, message: `Unknown tool: ${params.name}` },
+      })
+  }
+}
+
+const handle = (message) => {
+  // Answers to sampling requests
+  if (message.method === undefined && sampling.has(message.id)) {
+    const callId = sampling.get(message.id)
+    sampling.delete(message.id)
+    return answer(
+      callId,
+      text(
+        message.error
+          ? `sampling failed: ${message.error.message}`
+          : `sampled ${message.result.content.text}`,
+      ),
+    )
+  }
+
+  if (message.method === 'notifications/cancelled') {
+    const { requestId } = message.params
+    cancelled.push(requestId)
+    clearTimeout(working.get(requestId))
+    working.delete(requestId)
+    return
+  }
+
+  if (message.method === 'notifications/initialized') {
+    initialized = true
+    return
+  }
+
+  if (message.id === undefined || message.method === undefined) return
+
+  const { id, method, params } = message
+  if (process.env.STRICT_INIT && !initialized && method !== 'initialize') {
+    return send({
+      jsonrpc: '2.0',
+      id,
+      error: { code: -32600, message: `${method} before initialization` },
+    })
+  }
+  switch (method) {
+    case 'initialize':
+      return answer(id, {
+        protocolVersion,
+        capabilities: { tools: {}, resources: {} },
+        serverInfo: { name, version: '1.0.0' },
+      })
+    case 'ping':
+      return answer(id, {})
+    case 'tools/list': {
+      if (process.env.MALFORMED_LISTS) return answer(id, { tools: {} })
+      const start = Number(params?.cursor ?? 0)
+      const page = tools.slice(start, start + pageSize)
+      const next = start + page.length
+      return answer(id, {
+        tools: page,
+        ...(next < tools.length && { nextCursor: String(next) }),
+      })
+    }
+    case 'tools/call':
+      return callTool(id, params)
+    case 'resources/list':
+      return answer(id, {
+        resources: [{ uri: `${name}://readme`, name: 'readme' }],
+      })
+    case 'resources/read':
+      return answer(id, {
+        contents: [{ uri: params.uri, text: `${name} readme` }],
+      })
+    default:
+      return send({
+        jsonrpc: '2.0',
+        id,
+        error: { code: -32601, message: `Method not found: ${method}` },
+      })
+  }
+}
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const message = JSON.parse(line)
+  if (Array.isArray(message)) {
+    if (process.env.NO_BATCHES) {
+      return send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32600, message: 'Batches are not supported' },
+      })
+    }
+    return message.forEach(handle)
+  }
+  handle(message)
+})
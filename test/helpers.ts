@@ -0,0 +1,222 @@
+import type { TestContext } from 'node:test'
+import assert from 'node:assert/strict'
+import type { AddressInfo } from 'net'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import express from 'express'
+import type { Auth } from '../src/lib/auth.js'
+import { createChildPool } from '../src/lib/childPool.js'
+import { createLogger } from '../src/lib/logger.js'
+import {
+  createHttpStreamServer,
+  type HttpStreamServerOptions,
+} from '../src/server/httpStream.js'
+
+const fixtures = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  'fixtures',
+)
+
+/**
+ * Shell command that starts the fixture MCP server with the given environment.
+ */
+export const serverCmd = (env: Record<string, string> = {}) =>
+  [
+    ...Object.entries(env).map(([key, value]) => `${key}=${value}`),
+    'node',
+    JSON.stringify(path.join(fixtures, 'mcpServer.mjs')),
+  ].join(' ')
+
+export const logger = createLogger({
+  level: 'none',
+  format: 'text',
+  stderrOnly: true,
+})
+
+/**
+ * Collects the messages an upstream hands to its clients, so tests can wait
+ * for the answer to a request or for any message matching a predicate.
+ */
+export const createCollector = () => {
+  const messages: any[] = []
+  const waiters: {
+    match: (message: any) => boolean
+    resolve: (message: any) => void
+  }[] = []
+
+  const onMessage = (message: any) => {
+    messages.push(message)
+    for (const waiter of [...waiters]) {
+      if (waiter.match(message)) {
+        waiters.splice(waiters.indexOf(waiter), 1)
+        waiter.resolve(message)
+      }
+    }
+  }
+
+  const waitFor = (match: (message: any) => boolean, timeout = 5000) =>
+    new Promise<any>((resolve, reject) => {
+      const found = messages.find(match)
+      if (found) return resolve(found)
+
+      const timer = setTimeout(
+        () => reject(new Error('Timed out waiting for a message')),
+        timeout,
+      )
+      waiters.push({
+        match,
+        resolve: (message) => {
+          clearTimeout(timer)
+          resolve(message)
+        },
+      })
+    })
+
+  return {
+    messages,
+    onMessage,
+    waitFor,
+    answerTo: (id: any, timeout?: number) =>
+      waitFor(
+        (message) => message.id === id && message.method === undefined,
+        timeout,
+      ),
+  }
+}
+
+/**
+ * Text of the first content item of a tool result.
+ */
+export const resultText = (message: any) => message.result?.content?.[0]?.text
+
+export const callTool = (id: number, name: string, args = {}) => ({
+  jsonrpc: '2.0' as const,
+  id,
+  method: 'tools/call',
+  params: { name, arguments: args },
+})
+
+export const PROTOCOL_VERSION = '2025-03-26'
+
+/**
+ * Serves the fixture server over HTTP Stream at /mcp, every session sharing
+ * one child. With `auth`, requests need credentials like in the gateways.
+ */
+export const startGateway = async (
+  t: TestContext,
+  { auth, ...options }: Partial<HttpStreamServerOptions> & { auth?: Auth } = {},
+  env: Record<string, string> = {},
+) => {
+  const app = express()
+  auth?.protect({ app, exempt: [], resourcePath: '/mcp' })
+  const pool = createChildPool({
+    stdioCmd: serverCmd(env),
+    logger,
+    size: 1,
+    strategy: 'round-robin',
+    stickySessions: false,
+    healthCheckInterval: 0,
+    maxRestarts: 0,
+    restartWindow: 60000,
+    capabilities: { sampling: {} },
+    onMessage: (message) => server.handleUpstreamMessage(pool, message),
+    onGiveUp: () => {},
+  })
+  const server = createHttpStreamServer({
+    app,
+    endpoint: '/mcp',
+    logger,
+    headers: {},
+    responseMode: 'stream',
+    batchTimeout: 5000,
+    sessionHeaderName: 'Mcp-Session-Id',
+    sharedUpstream: pool,
+    initializeCache: pool.initializeCache,
+    checkMessage: auth?.checkRequestMessage,
+    ...options,
+  })
+  const httpServer = app.listen(0)
+  const stop = () => {
+    server.close()
+    pool.close()
+    httpServer.closeAllConnections()
+    httpServer.close()
+  }
+  t.after(stop)
+  await new Promise((resolve) => httpServer.once('listening', resolve))
+  return {
+    url: `http://localhost:${(httpServer.address() as AddressInfo).port}/mcp`,
+    stop,
+  }
+}
+
+export const post = (
+  url: string,
+  body: unknown,
+  sessionId?: string,
+  headers: Record<string, string> = {},
+) =>
+  fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(sessionId && {
+        'Mcp-Session-Id': sessionId,
+        'MCP-Protocol-Version': PROTOCOL_VERSION,
+      }),
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  })
+
+/**
+ * The messages of an SSE response, with their event IDs, as they arrive.
+ */
+export async function* events(res: Response) {
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for await (const chunk of res.body!) {
+    buffer += decoder.decode(chunk, { stream: true })
+    let end
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const event = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      const field = (name: string) =>
+        event
+          .split('\n')
+          .find((line) => line.startsWith(`${name}:`))
+          ?.slice(name.length + 1)
+          .trim()
+      const data = field('data')
+      if (data) yield { id: field('id'), message: JSON.parse(data) }
+    }
+  }
+}
+
+/**
+ * Initializes a session, returning its ID.
+ */
+export const initialize = async (
+  url: string,
+  headers: Record<string, string> = {},
+) => {
+  const res = await post(
+    url,
+    {
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: { sampling: {} },
+        clientInfo: { name: 'test', version: '1.0.0' },
+      },
+    },
+    undefined,
+    headers,
+  )
+  assert.equal(res.status, 200)
+  for await (const _ of events(res));
+  return res.headers.get('Mcp-Session-Id')!
+}
@@ -0,0 +1,268 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { createEventStore } from '../src/lib/eventStore.js'
+import {
+  callTool,
+  events,
+  initialize,
+  logger,
+  post,
+  PROTOCOL_VERSION,
+  resultText,
+  startGateway,
+} from './helpers.js'
+
+test('requests from the child reach the only session working with it', async (t) => {
+  const { url } = await startGateway(t)
+  const session = await initialize(url)
+  await initialize(url)
+
+  const stream = events(await post(url, callTool(1, 'sample'), session))
+  const { value: sampling } = await stream.next()
+  assert.equal(sampling!.message.method, 'sampling/createMessage')
+
+  const answer = await post(
+    url,
+    {
+      jsonrpc: '2.0',
+      id: sampling!.message.id,
+      result: { role: 'assistant', content: { type: 'text', text: 'yes' } },
+    },
+    session,
+  )
+  assert.equal(answer.status, 202)
+
+  const { value: result } = await stream.next()
+  assert.equal(resultText(result!.message), 'sampled yes')
+})
+
+test('requests from the child are refused while several sessions work with it', async (t) => {
+  const { url } = await startGateway(t)
+  const busy = await initialize(url)
+  const session = await initialize(url)
+
+  const slow = post(url, callTool(1, 'slow', { ms: 1000 }), busy)
+  // Let the slow request reach the child first
+  await new Promise((resolve) => setTimeout(resolve, 200))
+
+  const stream = events(await post(url, callTool(1, 'sample'), session))
+  const { value: result } = await stream.next()
+  assert.equal(
+    resultText(result!.message),
+    'sampling failed: No client available to handle sampling/createMessage',
+  )
+
+  // The busy session didn't see the request either
+  const busyEvents = []
+  for await (const event of events(await slow)) busyEvents.push(event.message)
+  assert.deepEqual(
+    busyEvents.map((message) => resultText(message)),
+    ['slow done'],
+  )
+})
+
+test('unreadable bodies get JSON-RPC errors', async (t) => {
+  const { url } = await startGateway(t)
+  const session = await initialize(url)
+
+  const send = (body: string) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': session,
+        'MCP-Protocol-Version': PROTOCOL_VERSION,
+      },
+      body,
+    })
+
+  for (const [body, code] of [
+    ['{bad', -32700],
+    ['"x"', -32700],
+    ['[null]', -32600],
+  ] as const) {
+    const res = await send(body)
+    assert.equal(res.status, 400)
+    assert.match(res.headers.get('Content-Type')!, /^application\/json/)
+    const { error, id } = await res.json()
+    assert.equal(error.code, code)
+    assert.equal(id, null)
+  }
+})
+
+test('a session is taken back over when its stream is resumed after a restart', async (t) => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'supergateway-events-'))
+  t.after(() => rmSync(dir, { recursive: true, force: true }))
+  const eventStore = () =>
+    createEventStore({ logger, path: path.join(dir, 'events.jsonl') })
+
+  const before = await startGateway(t, { eventStore: eventStore() })
+  const session = await initialize(before.url)
+  const answers = []
+  const batch = [
+    callTool(1, 'echo', { text: 'one' }),
+    callTool(2, 'echo', { text: 'two' }),
+  ]
+  for await (const event of events(await post(before.url, batch, session))) {
+    answers.push(event)
+  }
+  assert.equal(answers.length, 2)
+  before.stop()
+
+  const after = await startGateway(t, { eventStore: eventStore() })
+  const get = (lastEventId: string, sessionId = session) =>
+    fetch(after.url, {
+      headers: {
+        Accept: 'text/event-stream',
+        'Mcp-Session-Id': sessionId,
+        'MCP-Protocol-Version': PROTOCOL_VERSION,
+        'Last-Event-ID': lastEventId,
+      },
+    })
+
+  // Other sessions can't take it, and made-up streams are still unknown
+  assert.equal((await get(answers[0].id!, 'other')).status, 404)
+  assert.equal((await get(`${session}.unknown_1`)).status, 404)
+
+  const resumed = await get(answers[0].id!)
+  assert.equal(resumed.status, 200)
+  const stream = events(resumed)
+  assert.equal((await stream.next()).value!.message.sessionId, session)
+  const { value: replayed } = await stream.next()
+  assert.equal(replayed!.id, answers[1].id)
+  assert.equal(resultText(replayed!.message), 'two')
+
+  // The session works as before
+  const res = await post(
+    after.url,
+    callTool(3, 'echo', { text: 'three' }),
+    session,
+  )
+  assert.equal(res.status, 200)
+  const { value: answer } = await events(res).next()
+  assert.equal(resultText(answer!.message), 'three')
+})
+
+test('a session cannot replay the stream of another session', async (t) => {
+  const { url } = await startGateway(t)
+  const owner = await initialize(url)
+  const other = await initialize(url)
+
+  const answers = []
+  const batch = [
+    callTool(1, 'echo', { text: 'one' }),
+    callTool(2, 'echo', { text: 'two' }),
+  ]
+  for await (const event of events(await post(url, batch, owner))) {
+    answers.push(event)
+  }
+  assert.equal(answers.length, 2)
+  const lastEventId = answers[0].id!
+
+  const get = (sessionId?: string) =>
+    fetch(url, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(sessionId && {
+          'Mcp-Session-Id': sessionId,
+          'MCP-Protocol-Version': PROTOCOL_VERSION,
+        }),
+        'Last-Event-ID': lastEventId,
+      },
+    })
+
+  for (const sessionId of [other, undefined]) {
+    const res = await get(sessionId)
+    assert.equal(res.status, 404)
+    assert.equal((await res.json()).error.code, -32000)
+  }
+
+  const resumed = await get(owner)
+  assert.equal(resumed.status, 200)
+  const stream = events(resumed)
+  await stream.next()
+  const { value: replayed } = await stream.next()
+  assert.equal(resultText(replayed!.message), 'two')
+})
+
+test('older clients get what they can read from newer children', async (t) => {
+  const { url } = await startGateway(
+    t,
+    { responseMode: 'batch' },
+    { PROTOCOL_VERSION: '2025-06-18' },
+  )
+  const session = await initialize(url)
+
+  const list = await post(
+    url,
+    { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+    session,
+  )
+  const [tool] = (await list.json()).result.tools
+  assert.equal(tool.title, undefined)
+  assert.deepEqual(tool.annotations, { readOnlyHint: true })
+
+  const call = await post(url, callTool(2, 'rich'), session)
+  assert.deepEqual((await call.json()).result, {
+    content: [
+      { type: 'audio', data: 'AAAA', mimeType: 'audio/wav' },
+      { type: 'text', text: '{"ok":true}' },
+    ],
+  })
+})
+
+test('newer clients speak the version of older children', async (t) => {
+  const { url } = await startGateway(
+    t,
+    { responseMode: 'batch' },
+    { PROTOCOL_VERSION: '2025-03-26' },
+  )
+
+  const res = await post(url, {
+    jsonrpc: '2.0',
+    id: 0,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: 'test', version: '1.0.0' },
+    },
+  })
+  assert.equal((await res.json()).result.protocolVersion, '2025-03-26')
+  const session = res.headers.get('Mcp-Session-Id')!
+
+  // The child's answers reach the client as they are
+  const call = await post(url, callTool(1, 'echo', { text: 'hi' }), session)
+  assert.deepEqual((await call.json()).result, {
+    content: [{ type: 'text', text: 'hi' }],
+  })
+
+  const newer = await post(url, callTool(2, 'echo'), session, {
+    'MCP-Protocol-Version': '2025-06-18',
+  })
+  assert.equal(newer.status, 400)
+})
+
+test('batches of older clients reach newer children one message at a time', async (t) => {
+  const { url } = await startGateway(
+    t,
+    { responseMode: 'batch' },
+    { PROTOCOL_VERSION: '2025-06-18', NO_BATCHES: '1' },
+  )
+  const session = await initialize(url)
+
+  const res = await post(
+    url,
+    [
+      callTool(1, 'echo', { text: 'one' }),
+      callTool(2, 'echo', { text: 'two' }),
+    ],
+    session,
+  )
+  const answers = await res.json()
+  assert.deepEqual(answers.map(resultText).sort(), ['one', 'two'])
+})
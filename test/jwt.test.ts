@@ -0,0 +1,143 @@
+import { test, type TestContext } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { exportJWK, generateKeyPair, SignJWT, type JWTPayload } from 'jose'
+import { createAuth } from '../src/lib/auth.js'
+import { scopesOf } from '../src/lib/jwt.js'
+import {
+  callTool,
+  initialize,
+  logger,
+  post,
+  resultText,
+  startGateway,
+} from './helpers.js'
+
+const ISSUER = 'https://auth.example.com'
+const AUDIENCE = 'gateway'
+
+// Serves the fixture server to bearer JWTs signed by a key in a JWKS file,
+// returning a function that signs tokens
+const startWithJwt = async (t: TestContext) => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'supergateway-jwks-'))
+  t.after(() => rmSync(dir, { recursive: true, force: true }))
+
+  const { publicKey, privateKey } = await generateKeyPair('RS256')
+  const jwks = path.join(dir, 'jwks.json')
+  writeFileSync(
+    jwks,
+    JSON.stringify({
+      keys: [{ ...(await exportJWK(publicKey)), kid: 'test', alg: 'RS256' }],
+    }),
+  )
+
+  const gateway = await startGateway(t, {
+    responseMode: 'batch',
+    auth: createAuth({
+      apiKeys: [],
+      jwt: { jwks, issuer: ISSUER, audience: AUDIENCE },
+      logger,
+    }),
+  })
+
+  const sign = (
+    claims: JWTPayload = {},
+    {
+      key = privateKey,
+      expiresIn = '5m',
+      issuer = ISSUER,
+      audience = AUDIENCE,
+    } = {},
+  ) =>
+    new SignJWT({ sub: 'alice', ...claims })
+      .setProtectedHeader({ alg: 'RS256', kid: 'test' })
+      .setIssuer(issuer)
+      .setAudience(audience)
+      .setIssuedAt()
+      .setExpirationTime(expiresIn)
+      .sign(key)
+
+  return { ...gateway, sign }
+}
+
+const bearer = (token: string) => ({ Authorization: `Bearer ${token}` })
+
+test('scopes come from a scope string or an scp list', () => {
+  assert.deepEqual(scopesOf({ scope: 'read tool:echo' }), ['read', 'tool:echo'])
+  assert.deepEqual(scopesOf({ scp: ['read', 'tool:echo'] }), [
+    'read',
+    'tool:echo',
+  ])
+  assert.deepEqual(scopesOf({}), [])
+})
+
+test('valid tokens are accepted', async (t) => {
+  const { url, sign } = await startWithJwt(t)
+  const headers = bearer(await sign())
+
+  const session = await initialize(url, headers)
+  const res = await post(url, callTool(1, 'whoami'), session, headers)
+  assert.equal(res.status, 200)
+  assert.match(resultText(await res.json()), /^test:/)
+})
+
+test('expired, misaddressed and foreign tokens get 401', async (t) => {
+  const { url, sign } = await startWithJwt(t)
+  const { privateKey: otherKey } = await generateKeyPair('RS256')
+
+  const tokens = [
+    await sign({}, { expiresIn: '-1m' }),
+    await sign({}, { audience: 'another-gateway' }),
+    await sign({}, { issuer: 'https://evil.example.com' }),
+    await sign({}, { key: otherKey }),
+    'not-a-jwt',
+  ]
+  for (const token of tokens) {
+    const res = await post(url, callTool(1, 'echo'), undefined, bearer(token))
+    assert.equal(res.status, 401)
+    assert.equal((await res.json()).error.code, -32001)
+    assert.equal(
+      res.headers.get('WWW-Authenticate'),
+      `Bearer resource_metadata="${new URL(url).origin}/.well-known/oauth-protected-resource/mcp"`,
+    )
+  }
+})
+
+test('tokens without the tool scope get 403 for tools/call', async (t) => {
+  const { url, sign } = await startWithJwt(t)
+  const headers = bearer(await sign({ scope: 'tool:echo' }))
+  const session = await initialize(url, headers)
+
+  const forbidden = await post(url, callTool(1, 'whoami'), session, headers)
+  assert.equal(forbidden.status, 403)
+  assert.equal((await forbidden.json()).error.code, -32003)
+
+  const allowed = await post(
+    url,
+    callTool(2, 'echo', { text: 'hi' }),
+    session,
+    headers,
+  )
+  assert.equal(allowed.status, 200)
+  assert.equal(resultText(await allowed.json()), 'hi')
+})
+
+test('the protected resource metadata names the issuer', async (t) => {
+  const { url } = await startWithJwt(t)
+  const { origin } = new URL(url)
+
+  for (const metadataPath of [
+    '/.well-known/oauth-protected-resource',
+    '/.well-known/oauth-protected-resource/mcp',
+  ]) {
+    const res = await fetch(`${origin}${metadataPath}`)
+    assert.equal(res.status, 200)
+    assert.deepEqual(await res.json(), {
+      resource: `${origin}/mcp`,
+      authorization_servers: [ISSUER],
+      bearer_methods_supported: ['header'],
+    })
+  }
+})
@@ -0,0 +1,93 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { globToRegExp, type FilterRules } from '../src/lib/messageFilter.js'
+import { superviseChild } from '../src/lib/superviseChild.js'
+import { callTool, createCollector, logger, serverCmd } from './helpers.js'
+
+const startChild = (rules: Partial<FilterRules>) => {
+  const collector = createCollector()
+  const child = superviseChild({
+    stdioCmd: serverCmd(),
+    logger,
+    onMessage: collector.onMessage,
+    maxRestarts: 0,
+    restartWindow: 60000,
+    onGiveUp: () => {},
+    filter: {
+      allowTool: [],
+      denyTool: [],
+      allowResource: [],
+      denyResource: [],
+      allowPrompt: [],
+      denyPrompt: [],
+      ...rules,
+    },
+  })
+
+  const request = (
+    id: number,
+    method: string,
+    params?: Record<string, unknown>,
+  ) => {
+    child.write({ jsonrpc: '2.0', id, method, params })
+    return collector.answerTo(id)
+  }
+  const toolNames = async (id: number) =>
+    (await request(id, 'tools/list')).result.tools.map(
+      (tool: { name: string }) => tool.name,
+    )
+
+  return { child, collector, request, toolNames }
+}
+
+test('globs match whole names, with "*" and "?" as the only wildcards', () => {
+  assert.ok(globToRegExp('read_*').test('read_file'))
+  assert.ok(!globToRegExp('read_*').test('unread_file'))
+  assert.ok(globToRegExp('get?').test('gets'))
+  assert.ok(!globToRegExp('get?').test('get'))
+  assert.ok(!globToRegExp('a.b').test('axb'))
+})
+
+test('denied tools are hidden from tools/list and refused on call', async (t) => {
+  const { child, collector, request, toolNames } = startChild({
+    denyTool: ['slow', 'sam*'],
+  })
+  t.after(child.kill)
+
+  const names = await toolNames(1)
+  assert.ok(names.includes('echo'))
+  assert.ok(!names.includes('slow'))
+  assert.ok(!names.includes('sample'))
+
+  child.write(callTool(2, 'slow', { ms: 10 }))
+  const refused = await collector.answerTo(2)
+  assert.equal(refused.error.code, -32602)
+  assert.equal(refused.error.message, 'Unknown tool: slow')
+
+  const echo = await request(3, 'tools/call', {
+    name: 'echo',
+    arguments: { text: 'hi' },
+  })
+  assert.equal(echo.error, undefined)
+})
+
+test('only allowed tools are visible, and deny wins over allow', async (t) => {
+  const { child, toolNames } = startChild({
+    allowTool: ['echo', 'who*'],
+    denyTool: ['whoami'],
+  })
+  t.after(child.kill)
+
+  assert.deepEqual(await toolNames(1), ['echo'])
+})
+
+test('denied resources are hidden and cannot be read', async (t) => {
+  const { child, request } = startChild({ denyResource: ['test://*'] })
+  t.after(child.kill)
+
+  const list = await request(1, 'resources/list')
+  assert.deepEqual(list.result.resources, [])
+
+  const read = await request(2, 'resources/read', { uri: 'test://readme' })
+  assert.equal(read.error.code, -32002)
+})
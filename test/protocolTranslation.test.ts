@@ -0,0 +1,127 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { negotiateProtocolVersion } from '../src/lib/initializeCache.js'
+import {
+  negotiatedVersionOf,
+  translateForClient,
+} from '../src/lib/protocolTranslation.js'
+
+const tool = {
+  name: 'search',
+  title: 'Search',
+  inputSchema: { type: 'object' },
+  outputSchema: { type: 'object' },
+  annotations: { readOnlyHint: true },
+}
+
+test('messages for clients of the newest versions are left alone', () => {
+  const message = { jsonrpc: '2.0', id: 1, result: { tools: [tool] } }
+  assert.equal(translateForClient(message, '2025-06-18'), message)
+  assert.equal(translateForClient(message, '2025-11-25'), message)
+  assert.equal(translateForClient(message, undefined), message)
+})
+
+test('tools lose what older clients do not know', () => {
+  const message = { jsonrpc: '2.0', id: 1, result: { tools: [tool] } }
+
+  const [march] = translateForClient(message, '2025-03-26').result.tools
+  assert.deepEqual(Object.keys(march), ['name', 'inputSchema', 'annotations'])
+
+  const [november] = translateForClient(message, '2024-11-05').result.tools
+  assert.deepEqual(Object.keys(november), ['name', 'inputSchema'])
+})
+
+test('structured tool results are repeated as text', () => {
+  const translated = translateForClient(
+    {
+      jsonrpc: '2.0',
+      id: 1,
+      result: {
+        content: [
+          { type: 'audio', data: 'AAAA', mimeType: 'audio/wav' },
+          { type: 'resource_link', name: 'readme', uri: 'file:///README.md' },
+        ],
+        structuredContent: { ok: true },
+      },
+    },
+    '2024-11-05',
+  )
+
+  assert.deepEqual(translated.result, {
+    content: [
+      {
+        type: 'resource',
+        resource: { uri: 'audio:0', mimeType: 'audio/wav', blob: 'AAAA' },
+      },
+      { type: 'text', text: 'readme: file:///README.md' },
+      { type: 'text', text: '{"ok":true}' },
+    ],
+  })
+})
+
+test('a tool result that has text keeps just that text', () => {
+  const result = {
+    content: [{ type: 'text', text: 'ok' }],
+    structuredContent: { ok: true },
+  }
+  const translated = translateForClient(
+    { jsonrpc: '2.0', id: 1, result },
+    '2025-03-26',
+  )
+  assert.deepEqual(translated.result, { content: result.content })
+})
+
+test('sampling requests and progress are downgraded too', () => {
+  const sampling = translateForClient(
+    {
+      jsonrpc: '2.0',
+      id: 'sample-1',
+      method: 'sampling/createMessage',
+      params: {
+        messages: [
+          {
+            role: 'user',
+            content: { type: 'audio', data: 'AAAA', mimeType: 'audio/wav' },
+          },
+        ],
+        maxTokens: 10,
+      },
+    },
+    '2024-11-05',
+  )
+  assert.equal(sampling.params.messages[0].content.type, 'resource')
+
+  const progress = {
+    jsonrpc: '2.0',
+    method: 'notifications/progress',
+    params: { progressToken: 1, progress: 1, message: 'halfway' },
+  }
+  assert.equal(
+    translateForClient(progress, '2024-11-05').params.message,
+    undefined,
+  )
+  assert.equal(
+    translateForClient(progress, '2025-03-26').params.message,
+    'halfway',
+  )
+})
+
+// Clients never speak a newer version than the child, so what they send
+// needs no translation on its way to the child
+test('clients are never announced a newer version than the child', () => {
+  const childVersion = '2025-03-26'
+  for (const requested of ['2025-11-25', '2025-06-18', 'unknown', undefined]) {
+    assert.equal(
+      negotiateProtocolVersion({ requested, childVersion }),
+      childVersion,
+    )
+  }
+  assert.equal(
+    negotiateProtocolVersion({ requested: '2024-11-05', childVersion }),
+    '2024-11-05',
+  )
+  assert.equal(
+    negotiatedVersionOf({ result: { protocolVersion: '2024-11-05' } }),
+    '2024-11-05',
+  )
+})
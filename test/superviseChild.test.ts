@@ -0,0 +1,79 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createInitializeCache } from '../src/lib/initializeCache.js'
+import {
+  CHILD_GAVE_UP_ERROR,
+  superviseChild,
+} from '../src/lib/superviseChild.js'
+import {
+  callTool,
+  createCollector,
+  logger,
+  resultText,
+  serverCmd,
+} from './helpers.js'
+
+test('messages queued during a restart wait for the handshake', async (t) => {
+  const collector = createCollector()
+  const initializeCache = createInitializeCache({ logger })
+  const child = superviseChild({
+    stdioCmd: serverCmd({ STRICT_INIT: '1' }),
+    logger,
+    onMessage: (message) => {
+      if (initializeCache.handleChildMessage(message)) return
+      collector.onMessage(message)
+    },
+    maxRestarts: 1,
+    restartWindow: 60000,
+    onRestart: (write) => initializeCache.start(write),
+    onGiveUp: () => {},
+  })
+  t.after(child.kill)
+  await initializeCache.start(child.write)
+
+  child.restart()
+  while (child.running) {
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+
+  // Written while the child is down, reaches the new one after its handshake
+  child.write(callTool(1, 'echo', { text: 'after restart' }))
+  const answer = await collector.answerTo(1)
+  assert.equal(answer.error, undefined)
+  assert.equal(resultText(answer), 'after restart')
+  assert.equal(child.restarts, 1)
+})
+
+test('a child that misses its handshake after a restart is given up on', async (t) => {
+  const collector = createCollector()
+  let gaveUp: () => void = () => {}
+  const givenUp = new Promise<void>((resolve) => {
+    gaveUp = resolve
+  })
+  const child = superviseChild({
+    stdioCmd: serverCmd(),
+    logger,
+    onMessage: collector.onMessage,
+    maxRestarts: 1,
+    restartWindow: 60000,
+    // The handshake never ends
+    onRestart: () => new Promise(() => {}),
+    handshakeTimeout: 100,
+    onGiveUp: gaveUp,
+  })
+  t.after(child.kill)
+
+  child.restart()
+  while (child.running) {
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+  child.write(callTool(1, 'echo', { text: 'never sent' }))
+  await givenUp
+  assert.equal(child.restarts, 1)
+  assert.ok(child.gaveUp)
+
+  // Queued and later requests are answered for the child
+  assert.deepEqual((await collector.answerTo(1)).error, CHILD_GAVE_UP_ERROR)
+  child.write(callTool(2, 'echo'))
+  assert.deepEqual((await collector.answerTo(2)).error, CHILD_GAVE_UP_ERROR)
+})